@@ -0,0 +1,282 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const REPO_ROOT = path.join(__dirname, "..");
+const SNAPSHOT_PATH = "src/data/vrti/treadmills.json";
+const SNAPSHOT_FILE = path.join(REPO_ROOT, SNAPSHOT_PATH);
+const CHANGES_FILE = path.join(
+  REPO_ROOT,
+  "src/data/vrti/treadmill-changes.json",
+);
+
+const TREADMILL_DATA_URL =
+  process.env.VRTI_TREADMILLS_URL ||
+  "https://raw.githubusercontent.com/Duinrahaic/treadmill-compatibility/master/data/treadmills.json";
+const TREADMILL_DATA_FILE = process.env.VRTI_TREADMILLS_FILE;
+
+// Only `npm run treadmills:refresh` records changes. Builds refresh the
+// snapshot without committing it, so they would record the same changes again
+// on every run.
+const RECORD_CHANGES = process.argv.includes("--record-changes");
+
+function createUnavailableError(message) {
+  const error = new Error(message);
+  error.code = "TREADMILL_SOURCE_UNAVAILABLE";
+  return error;
+}
+
+async function hasExistingSnapshot() {
+  try {
+    await fs.access(SNAPSHOT_FILE);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readJsonFile(filePath) {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readLocalDataset(filePath) {
+  const resolvedPath = path.resolve(filePath);
+  console.log(`Reading treadmill data from ${resolvedPath}...`);
+  return JSON.parse(await fs.readFile(resolvedPath, "utf-8"));
+}
+
+async function fetchRemoteDataset() {
+  console.log(`Fetching treadmill data from ${TREADMILL_DATA_URL}...`);
+
+  let response;
+  try {
+    response = await fetch(TREADMILL_DATA_URL, {
+      signal: AbortSignal.timeout(10_000),
+    });
+  } catch (error) {
+    throw createUnavailableError(
+      `Failed to fetch treadmill data: ${error.message}`,
+    );
+  }
+
+  if (!response.ok) {
+    throw createUnavailableError(
+      `Failed to fetch treadmill data: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  return response.json();
+}
+
+async function loadDataset() {
+  if (TREADMILL_DATA_FILE) {
+    return readLocalDataset(TREADMILL_DATA_FILE);
+  }
+
+  return fetchRemoteDataset();
+}
+
+// Full record validation happens in src/lib/vrti/treadmillData.ts at build
+// time. This only guards against committing something that isn't a dataset.
+function assertDatasetShape(dataset) {
+  if (!dataset || !Array.isArray(dataset.treadmills)) {
+    throw new Error("Treadmill data does not contain a treadmills array");
+  }
+
+  const missingIds = dataset.treadmills.filter(
+    (record) => typeof record?.id !== "string" || record.id.length === 0,
+  );
+
+  if (missingIds.length > 0) {
+    throw new Error(`${missingIds.length} treadmill record(s) have no id`);
+  }
+}
+
+const difference = (values, others) =>
+  values.filter((value) => !others.includes(value));
+
+function diffRecords(previous, next) {
+  const previousDrivers = previous.vrtiData?.driver ?? [];
+  const nextDrivers = next.vrtiData?.driver ?? [];
+  const changes = {
+    driversAdded: difference(nextDrivers, previousDrivers),
+    driversRemoved: difference(previousDrivers, nextDrivers),
+    featuresAdded: difference(next.features ?? [], previous.features ?? []),
+    featuresRemoved: difference(previous.features ?? [], next.features ?? []),
+  };
+
+  const changed = Object.entries(changes).filter(
+    ([, values]) => values.length > 0,
+  );
+
+  return changed.length > 0 ? Object.fromEntries(changed) : null;
+}
+
+/**
+ * Compares the new dataset against the snapshot it replaces and returns the
+ * added and removed treadmills, plus those whose VRTI drivers or features
+ * changed. Other edits (notes, sources, ...) are not tracked.
+ */
+function diffDatasets(previous, next, date) {
+  const previousById = new Map(
+    previous.treadmills.map((record) => [record.id, record]),
+  );
+  const nextIds = new Set(next.treadmills.map((record) => record.id));
+  const changes = [];
+
+  for (const record of next.treadmills) {
+    const base = {
+      date,
+      id: record.id,
+      make: record.make,
+      model: record.model,
+    };
+    const previousRecord = previousById.get(record.id);
+
+    if (!previousRecord) {
+      changes.push({ ...base, type: "added" });
+      continue;
+    }
+
+    const recordChanges = diffRecords(previousRecord, record);
+    if (recordChanges) {
+      changes.push({ ...base, type: "updated", ...recordChanges });
+    }
+  }
+
+  for (const record of previous.treadmills) {
+    if (!nextIds.has(record.id)) {
+      changes.push({
+        date,
+        id: record.id,
+        make: record.make,
+        model: record.model,
+        type: "removed",
+      });
+    }
+  }
+
+  return changes;
+}
+
+// Changes are computed against the committed snapshot rather than the one on
+// disk, which a build may already have refreshed without recording anything
+async function readCommittedSnapshot() {
+  try {
+    const { stdout } = await promisify(execFile)(
+      "git",
+      ["show", `HEAD:${SNAPSHOT_PATH}`],
+      { cwd: REPO_ROOT, maxBuffer: 64 * 1024 * 1024 },
+    );
+    return JSON.parse(stdout);
+  } catch {
+    return null;
+  }
+}
+
+const getChangeContent = ({ date, ...change }) => JSON.stringify(change);
+
+/**
+ * Drops the changes that are already the latest recorded change of their
+ * treadmill, so refreshing twice before committing doesn't record them twice.
+ */
+function skipRecordedChanges(changes, history) {
+  const latestById = new Map();
+
+  for (const change of history) {
+    if (!latestById.has(change.id)) {
+      latestById.set(change.id, getChangeContent(change));
+    }
+  }
+
+  return changes.filter(
+    (change) => latestById.get(change.id) !== getChangeContent(change),
+  );
+}
+
+async function recordChanges(next) {
+  const previous = await readCommittedSnapshot();
+
+  if (!previous || !Array.isArray(previous.treadmills)) {
+    console.log("No committed treadmill snapshot, skipping change tracking.");
+    return;
+  }
+
+  const history = (await readJsonFile(CHANGES_FILE)) ?? {
+    version: 1,
+    changes: [],
+  };
+  const date = new Date().toISOString().slice(0, 10);
+  const changes = skipRecordedChanges(
+    diffDatasets(previous, next, date),
+    history.changes,
+  );
+
+  if (changes.length === 0) {
+    console.log("No new treadmill compatibility changes to record.");
+    return;
+  }
+
+  history.changes = [...changes, ...history.changes];
+
+  await fs.writeFile(
+    CHANGES_FILE,
+    `${JSON.stringify(history, null, 2)}\n`,
+    "utf-8",
+  );
+  console.log(
+    `Recorded ${changes.length} treadmill compatibility change(s). Commit ${path.relative(REPO_ROOT, CHANGES_FILE)} together with the snapshot.`,
+  );
+}
+
+async function generateTreadmillSnapshot() {
+  try {
+    const dataset = await loadDataset();
+    assertDatasetShape(dataset);
+
+    if (RECORD_CHANGES) {
+      await recordChanges(dataset);
+    }
+
+    await fs.mkdir(path.dirname(SNAPSHOT_FILE), { recursive: true });
+    await fs.writeFile(
+      SNAPSHOT_FILE,
+      `${JSON.stringify(dataset, null, 2)}\n`,
+      "utf-8",
+    );
+    console.log(
+      `Updated treadmill snapshot with ${dataset.treadmills.length} records.`,
+    );
+  } catch (error) {
+    // A refresh that couldn't reach upstream has nothing to record, so only
+    // builds carry on with the committed snapshot
+    if (error.code === "TREADMILL_SOURCE_UNAVAILABLE" && !RECORD_CHANGES) {
+      if (await hasExistingSnapshot()) {
+        console.warn(
+          `Skipping treadmill snapshot update: ${error.message}. The committed snapshot was left unchanged.`,
+        );
+        return;
+      }
+
+      console.error(
+        `${error.message}. There is no snapshot at ${SNAPSHOT_PATH} to fall back to, so the treadmill pages can't be built. Run this again while online and commit the snapshot it writes.`,
+      );
+      process.exit(1);
+    }
+
+    console.error("Error generating treadmill snapshot:", error);
+    process.exit(1);
+  }
+}
+
+generateTreadmillSnapshot();
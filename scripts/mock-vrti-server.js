@@ -0,0 +1,197 @@
+import { WebSocketServer } from "ws";
+import { computeAutoWalkSpeed } from "../src/lib/vrti/autoWalk";
+
+// A stand-in for VRTI's WebSocket API, for trying the live mirror mode of the
+// Auto Walk calculator without a treadmill. It walks through a few target
+// speeds and accepts the commands the docs describe for them. Walk speeds come
+// from the same module as the calculator's, so it runs through vite-node:
+//
+//   npm run mock:vrti -- [--port 47126] [--mismatch]
+//
+// With --mismatch, the reported walk speed is off by 5% so the calculator's
+// mismatch warning can be checked.
+
+const args = process.argv.slice(2);
+const getArg = (name) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const PORT = Number(getArg("--port") ?? process.env.VRTI_MOCK_PORT ?? 47126);
+const MISMATCH_OFFSET = args.includes("--mismatch") ? 0.05 : 0;
+
+const TARGET_SPEEDS = [2.0, 3.5, 5.0, 4.0];
+const TARGET_INTERVAL_MS = 6_000;
+const TICK_MS = 250;
+
+const treadmill = {
+  connected: true,
+  running: true,
+  currentSpeed: 0,
+  targetSpeed: TARGET_SPEEDS[0],
+  userSpeedLimit: 7.5,
+  stepsSupported: true,
+  distanceSupported: true,
+  deviceSpeedRange: { min: 0.5, max: 6, step: 0.1 },
+};
+
+const autoWalk = {
+  enabled: true,
+  speedMultiplier: 1.0,
+  inputMode: "VRChatOSC",
+  yawLock: false,
+  speedOverride: null,
+  speedOffset: 0,
+};
+
+let walkSpeed = 0;
+
+const computeWalkSpeed = () =>
+  autoWalk.enabled
+    ? computeAutoWalkSpeed({
+        speed: treadmill.currentSpeed,
+        targetSpeed: treadmill.targetSpeed,
+        multiplier: autoWalk.speedMultiplier,
+        override: autoWalk.speedOverride,
+        tempOffset: autoWalk.speedOffset,
+      }).finalSpeed
+    : 0;
+
+const clients = new Set();
+
+function send(client, event, payload, refId) {
+  const message = { event, payload: JSON.stringify(payload) };
+  if (refId !== undefined) {
+    message.refId = refId;
+  }
+  client.socket.send(JSON.stringify(message));
+}
+
+function broadcast(event, payload) {
+  for (const client of clients) {
+    if (client.events.has(event)) {
+      send(client, event, payload);
+    }
+  }
+}
+
+function updateWalkSpeed() {
+  const next = computeWalkSpeed();
+  if (Math.abs(next - walkSpeed) > 0.0001) {
+    walkSpeed = next;
+    broadcast("AutoWalkSpeedUpdated", {
+      speed: Math.min(1, walkSpeed + MISMATCH_OFFSET),
+    });
+  }
+}
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+function handleCommand(client, { command, payload, refId }) {
+  const value = payload === undefined ? undefined : JSON.parse(payload);
+  const respond = (event, data) => send(client, event, data, refId);
+
+  switch (command) {
+    case "EventSubscribe":
+      value.forEach((event) => client.events.add(event));
+      break;
+    case "EventUnsubscribe":
+      value.forEach((event) => client.events.delete(event));
+      break;
+    case "GetTreadmillState":
+      respond("TreadmillStateUpdated", treadmill);
+      break;
+    case "SetTargetSpeed":
+      treadmill.targetSpeed =
+        value > 0
+          ? clamp(
+              value,
+              treadmill.deviceSpeedRange.min,
+              Math.min(
+                treadmill.deviceSpeedRange.max,
+                treadmill.userSpeedLimit,
+              ),
+            )
+          : 0;
+      respond("TreadmillStateUpdated", treadmill);
+      break;
+    case "GetAutoWalkSettings":
+      respond("AutoWalkSettingsUpdated", autoWalk);
+      break;
+    case "ToggleAutoWalk":
+      autoWalk.enabled = value ?? !autoWalk.enabled;
+      respond("AutoWalkSettingsUpdated", autoWalk);
+      break;
+    case "SetAutoWalkSpeedMultiplier":
+      autoWalk.speedMultiplier = clamp(value, 0, 2);
+      respond("AutoWalkSettingsUpdated", autoWalk);
+      break;
+    case "SetAutoWalkSpeedOffset":
+      autoWalk.speedOffset = clamp(value, -1, 1);
+      respond("AutoWalkSettingsUpdated", autoWalk);
+      break;
+    case "SetAutoWalkSpeedOverride":
+      autoWalk.speedOverride = value === null ? null : clamp(value, 0, 1);
+      respond("AutoWalkSettingsUpdated", autoWalk);
+      break;
+    default:
+      console.warn(`Ignoring unsupported command "${command}"`);
+      return;
+  }
+
+  updateWalkSpeed();
+}
+
+const server = new WebSocketServer({ host: "127.0.0.1", port: PORT });
+
+server.on("connection", (socket) => {
+  const client = { socket, events: new Set() };
+  clients.add(client);
+  console.log(`Client connected (${clients.size} total)`);
+
+  socket.on("message", (data, isBinary) => {
+    if (isBinary) {
+      return;
+    }
+
+    try {
+      handleCommand(client, JSON.parse(data.toString("utf-8")));
+    } catch (error) {
+      console.warn(`Ignoring invalid message: ${error.message}`);
+    }
+  });
+
+  socket.on("close", () => {
+    clients.delete(client);
+    console.log(`Client disconnected (${clients.size} total)`);
+  });
+  socket.on("error", () => socket.terminate());
+});
+
+let targetIndex = 0;
+setInterval(() => {
+  targetIndex = (targetIndex + 1) % TARGET_SPEEDS.length;
+  treadmill.targetSpeed = TARGET_SPEEDS[targetIndex];
+}, TARGET_INTERVAL_MS);
+
+// Moves the belt towards the target by one device step per tick
+setInterval(() => {
+  const diff = treadmill.targetSpeed - treadmill.currentSpeed;
+  if (Math.abs(diff) < 0.001) {
+    return;
+  }
+
+  const step = treadmill.deviceSpeedRange.step;
+  const next =
+    treadmill.currentSpeed + Math.sign(diff) * Math.min(step, Math.abs(diff));
+  treadmill.currentSpeed = Math.round(next * 1000) / 1000;
+  treadmill.running = treadmill.currentSpeed > 0;
+  broadcast("TreadmillStateUpdated", treadmill);
+  updateWalkSpeed();
+}, TICK_MS);
+
+server.on("listening", () => {
+  console.log(
+    `Mock VRTI WebSocket API listening on ws://localhost:${PORT}${MISMATCH_OFFSET ? " (reporting mismatched walk speeds)" : ""}`,
+  );
+});
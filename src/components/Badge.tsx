@@ -0,0 +1,30 @@
+import React from "react";
+
+export type BadgeVariant = "default" | "success" | "tip" | "caution" | "danger";
+
+const BADGE_COLORS: Record<BadgeVariant, string> = {
+  default: "bg-slate-800 text-slate-300 border-slate-700",
+  success: "bg-green-950/50 text-green-400 border-green-900",
+  tip: "bg-purple-950/50 text-purple-400 border-purple-900",
+  caution: "bg-orange-950/50 text-orange-400 border-orange-900",
+  danger: "bg-red-950/50 text-red-400 border-red-900",
+};
+
+export default function Badge({
+  text,
+  variant = "default",
+  className,
+}: {
+  text: React.ReactNode;
+  variant?: BadgeVariant;
+  // Replaces the variant's colors
+  className?: string;
+}) {
+  return (
+    <span
+      className={`text-xs font-medium px-2 py-0.5 rounded border whitespace-nowrap ${className ?? BADGE_COLORS[variant] ?? BADGE_COLORS.default}`}
+    >
+      {text}
+    </span>
+  );
+}
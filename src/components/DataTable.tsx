@@ -0,0 +1,941 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Filter,
+  Search,
+  X,
+} from "lucide-react";
+import {
+  createSearchIndex,
+  search as searchIndex,
+  type SearchFieldInput,
+  type SearchHighlights,
+} from "../lib/fuzzySearch";
+import { useFocusTrap } from "./useFocusTrap";
+
+export type SortDirection = "asc" | "desc";
+
+export type SortValue = string | number | undefined;
+
+export interface DataTableRowContext {
+  // Matched ranges of the current search, keyed like the search fields
+  highlights: SearchHighlights;
+  isExpanded: boolean;
+}
+
+export interface DataTableColumn<T> {
+  key: string;
+  header: string;
+  // Turns the header into a toggle for the sort option with this key
+  sortKey?: string;
+  headerClassName?: string;
+  cellClassName?: string;
+  render: (item: T, context: DataTableRowContext) => React.ReactNode;
+}
+
+export interface DataTableSortOption<T> {
+  key: string;
+  label: string;
+  getValue: (item: T) => SortValue;
+}
+
+export interface DataTableFacet<T> {
+  key: string;
+  label: string;
+  getValues: (item: T) => string[];
+  formatValue?: (value: string) => string;
+  // Whether an item needs every selected value, or just one of them
+  match: "all" | "any";
+}
+
+export interface DataTableExporter<T> {
+  // Name of the format, e.g. "CSV"
+  label: string;
+  onExport: (rows: T[]) => void;
+}
+
+export interface DataTableState {
+  search: string;
+  // Selected values per facet key
+  facets: Record<string, string[]>;
+  sort: { key: string; direction: SortDirection } | null;
+  page: number;
+}
+
+export const INITIAL_DATA_TABLE_STATE: DataTableState = {
+  search: "",
+  facets: {},
+  sort: null,
+  page: 1,
+};
+
+interface DataTableProps<T> {
+  data: T[];
+  columns: DataTableColumn<T>[];
+  getRowId: (item: T) => string;
+  // Names a row in the labels of its buttons
+  getRowLabel: (item: T) => string;
+  // Singular and plural, for result counts
+  itemName: [string, string];
+  // Pass both to control the state, e.g. to sync it with the URL
+  state?: DataTableState;
+  onStateChange?: (state: DataTableState) => void;
+  getSearchFields?: (item: T) => SearchFieldInput[];
+  searchPlaceholder?: string;
+  facets?: DataTableFacet<T>[];
+  // Additional filter with its own controls at the top of the filter panel
+  filter?: (item: T) => boolean;
+  filterControls?: React.ReactNode;
+  filterControlsActiveCount?: number;
+  onClearFilters?: () => void;
+  sortOptions?: DataTableSortOption<T>[];
+  // Shows a "Sort by" select for options that have no column
+  showSortControl?: boolean;
+  exporters?: DataTableExporter<T>[];
+  // Extra controls in front of the sort and export controls
+  toolbar?: React.ReactNode;
+  // Shown between the toolbar and the table
+  beforeTable?: React.ReactNode;
+  // Replaces the table with another view of the current page
+  renderView?: (rows: T[]) => React.ReactNode;
+  hasDetails?: (item: T) => boolean;
+  renderDetails?: (item: T, context: DataTableRowContext) => React.ReactNode;
+  renderRowActions?: (item: T) => React.ReactNode;
+  // Keeps rows with the same key together under a heading row
+  groupBy?: (item: T) => string;
+  pageSize?: number;
+  emptyMessage?: string;
+  tableClassName?: string;
+  className?: string;
+  // Waits with announcing results until restored state has been applied
+  announceResults?: boolean;
+}
+
+// Missing values always sort last, regardless of direction
+export const compareSortValues = (
+  a: SortValue,
+  b: SortValue,
+  direction: SortDirection,
+) => {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+
+  const result =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+  return direction === "asc" ? result : -result;
+};
+
+const NO_FACETS: never[] = [];
+const NO_SORT_OPTIONS: never[] = [];
+const NO_EXPORTERS: never[] = [];
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value)
+    ? values.filter((current) => current !== value)
+    : [...values, value];
+
+export const dataTableButtonClassName = (active: boolean) =>
+  `flex items-center gap-2 px-3 py-1.5 border rounded-lg transition-colors whitespace-nowrap ${
+    active
+      ? "bg-blue-600/20 border-blue-500 text-blue-200"
+      : "bg-slate-900/50 border-slate-700 text-slate-400 hover:border-slate-600 hover:text-slate-200"
+  }`;
+
+/**
+ * A section of the filter panel, for filters passed as `filterControls`.
+ */
+export function DataTableFilterSection({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  const titleId = useId();
+
+  return (
+    <div className="border-t border-slate-800 first:border-t-0">
+      <div className="sticky top-0 bg-slate-900 p-2 border-b border-slate-800 z-10">
+        <span
+          id={titleId}
+          className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-2"
+        >
+          {title}
+        </span>
+      </div>
+      <div role="group" aria-labelledby={titleId}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function FacetOption({
+  label,
+  count,
+  checked,
+  onChange,
+}: {
+  label: string;
+  count: number;
+  checked: boolean;
+  onChange: () => void;
+}) {
+  return (
+    <label className="relative flex items-center justify-between px-2 py-2 hover:bg-slate-800 rounded cursor-pointer group transition-colors">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={onChange}
+          className="sr-only peer"
+        />
+        <div
+          aria-hidden="true"
+          className={`w-4 h-4 rounded border flex items-center justify-center transition-colors peer-focus-visible:ring-2 peer-focus-visible:ring-blue-500 ${checked ? "bg-blue-600 border-blue-600" : "border-slate-600 group-hover:border-slate-500"}`}
+        >
+          {checked && (
+            <svg
+              className="w-3 h-3 text-white"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="3"
+                d="M5 13l4 4L19 7"
+              ></path>
+            </svg>
+          )}
+        </div>
+        <span className="text-slate-300 text-sm group-hover:text-slate-200 transition-colors">
+          {label}
+        </span>
+      </div>
+      <span className="text-xs text-slate-500 tabular-nums">({count})</span>
+    </label>
+  );
+}
+
+/**
+ * Searchable, filterable and sortable table with pagination and expandable
+ * rows. Search, facets and sorting only apply when their props are given, so
+ * a plain list just needs `columns`. Props that feed the memoized pipeline
+ * (`getRowId`, `getSearchFields`, `facets`, `sortOptions`, `groupBy`) should
+ * be stable.
+ */
+export default function DataTable<T>({
+  data,
+  columns,
+  getRowId,
+  getRowLabel,
+  itemName,
+  state: controlledState,
+  onStateChange,
+  getSearchFields,
+  searchPlaceholder = "Search...",
+  facets = NO_FACETS,
+  filter,
+  filterControls,
+  filterControlsActiveCount = 0,
+  onClearFilters,
+  sortOptions = NO_SORT_OPTIONS,
+  showSortControl = false,
+  exporters = NO_EXPORTERS,
+  toolbar,
+  beforeTable,
+  renderView,
+  hasDetails,
+  renderDetails,
+  renderRowActions,
+  groupBy,
+  pageSize = 20,
+  emptyMessage = `No ${itemName[1]} found matching your criteria.`,
+  tableClassName = "min-w-[600px]",
+  className = "",
+  announceResults = true,
+}: DataTableProps<T>) {
+  const [internalState, setInternalState] = useState(INITIAL_DATA_TABLE_STATE);
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [activeRowId, setActiveRowId] = useState<string | null>(null);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const filterRef = useRef<HTMLDivElement>(null);
+  const filterPanelRef = useRef<HTMLDivElement>(null);
+  const tableBodyRef = useRef<HTMLTableSectionElement>(null);
+  const baseId = useId();
+  const filterPanelId = `${baseId}-filters`;
+  const sortSelectId = `${baseId}-sort`;
+
+  const state = controlledState ?? internalState;
+
+  const updateState = (changes: Partial<DataTableState>) => {
+    const next = { ...state, page: 1, ...changes };
+
+    if (!controlledState) {
+      setInternalState(next);
+    }
+    onStateChange?.(next);
+  };
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        filterRef.current &&
+        !filterRef.current.contains(event.target as Node)
+      ) {
+        setIsFilterOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  useFocusTrap(filterPanelRef, isFilterOpen, () => setIsFilterOpen(false));
+
+  const facetStats = useMemo(
+    () =>
+      facets.map((facet) => {
+        const counts: Record<string, number> = {};
+
+        data.forEach((item) => {
+          new Set(facet.getValues(item)).forEach((value) => {
+            counts[value] = (counts[value] || 0) + 1;
+          });
+        });
+
+        return { facet, values: Object.keys(counts).sort(), counts };
+      }),
+    [data, facets],
+  );
+
+  const searchIndexData = useMemo(
+    () => (getSearchFields ? createSearchIndex(data, getSearchFields) : null),
+    [data, getSearchFields],
+  );
+
+  // Ranked by relevance while a search query is active
+  const searchResults = useMemo(
+    () =>
+      searchIndexData
+        ? searchIndex(searchIndexData, state.search)
+        : data.map((item) => ({ item, score: 0, highlights: {} })),
+    [searchIndexData, data, state.search],
+  );
+
+  const highlightsById = useMemo(
+    () =>
+      new Map<string, SearchHighlights>(
+        searchResults.map((result) => [
+          getRowId(result.item),
+          result.highlights,
+        ]),
+      ),
+    [searchResults, getRowId],
+  );
+
+  const matchingData = useMemo(
+    () =>
+      searchResults
+        .map((result) => result.item)
+        .filter((item) => {
+          const matchesFacets = facets.every((facet) => {
+            const selected = state.facets[facet.key] ?? [];
+            if (selected.length === 0) {
+              return true;
+            }
+
+            const values = facet.getValues(item);
+            return facet.match === "all"
+              ? selected.every((value) => values.includes(value))
+              : selected.some((value) => values.includes(value));
+          });
+
+          return matchesFacets && (!filter || filter(item));
+        }),
+    [searchResults, facets, state.facets, filter],
+  );
+
+  const sortedData = useMemo(() => {
+    const option = sortOptions.find(
+      (current) => current.key === state.sort?.key,
+    );
+
+    if (!state.sort || !option) {
+      return matchingData;
+    }
+
+    const { direction } = state.sort;
+    return [...matchingData].sort((a, b) =>
+      compareSortValues(option.getValue(a), option.getValue(b), direction),
+    );
+  }, [matchingData, sortOptions, state.sort]);
+
+  // Groups are ordered by their first row, so they follow the sort order
+  const { groupedData, groupSizes } = useMemo(() => {
+    if (!groupBy) {
+      return { groupedData: sortedData, groupSizes: new Map<string, number>() };
+    }
+
+    const groups = new Map<string, T[]>();
+
+    sortedData.forEach((item) => {
+      const key = groupBy(item);
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+
+    return {
+      groupedData: Array.from(groups.values()).flat(),
+      groupSizes: new Map(
+        Array.from(groups, ([key, items]) => [key, items.length]),
+      ),
+    };
+  }, [sortedData, groupBy]);
+
+  const totalPages = Math.ceil(groupedData.length / pageSize);
+  const page = Math.min(state.page, Math.max(totalPages, 1));
+  const paginatedData = groupedData.slice(
+    (page - 1) * pageSize,
+    page * pageSize,
+  );
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage >= 1 && newPage <= totalPages) {
+      updateState({ page: newPage });
+    }
+  };
+
+  const handleSort = (key: string) => {
+    updateState({
+      sort:
+        state.sort?.key === key
+          ? {
+              key,
+              direction: state.sort.direction === "asc" ? "desc" : "asc",
+            }
+          : { key, direction: "asc" },
+    });
+  };
+
+  const clearFilters = () => {
+    updateState({ search: "", facets: {} });
+    onClearFilters?.();
+  };
+
+  const activeFilterCount =
+    Object.values(state.facets).reduce(
+      (count, values) => count + values.length,
+      0,
+    ) + filterControlsActiveCount;
+  const isClearDisabled = !state.search && activeFilterCount === 0;
+  const hasFilters = facets.length > 0 || !!filterControls;
+
+  const getAriaSort = (key: string) =>
+    state.sort?.key !== key
+      ? undefined
+      : state.sort.direction === "asc"
+        ? "ascending"
+        : "descending";
+
+  const renderSortHeader = (key: string, label: string) => (
+    <button
+      onClick={() => handleSort(key)}
+      className="inline-flex items-center gap-1 uppercase tracking-wider font-semibold hover:text-slate-200 transition-colors"
+    >
+      {label}
+      {state.sort?.key !== key ? (
+        <ArrowUpDown className="w-3 h-3 opacity-50" />
+      ) : state.sort.direction === "asc" ? (
+        <ArrowUp className="w-3 h-3 text-blue-400" />
+      ) : (
+        <ArrowDown className="w-3 h-3 text-blue-400" />
+      )}
+    </button>
+  );
+
+  const canExpand = (item: T) =>
+    !!renderDetails && (hasDetails ? hasDetails(item) : true);
+  const hasActionsColumn = !!renderRowActions || !!renderDetails;
+  const columnCount = columns.length + (hasActionsColumn ? 1 : 0);
+
+  const toggleExpandedRow = (id: string) =>
+    setExpandedRow((prev) => (prev === id ? null : id));
+
+  // Rows use a roving tabindex: only one is in the tab order, and the arrow
+  // keys move focus between them
+  const handleRowKeyDown = (
+    event: React.KeyboardEvent<HTMLTableRowElement>,
+    id: string,
+    isExpandable: boolean,
+  ) => {
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    if ((event.key === "Enter" || event.key === " ") && isExpandable) {
+      event.preventDefault();
+      toggleExpandedRow(id);
+      return;
+    }
+
+    const rows = Array.from(
+      tableBodyRef.current?.querySelectorAll<HTMLTableRowElement>(
+        "tr[data-row-id]",
+      ) ?? [],
+    );
+    const index = rows.indexOf(event.currentTarget);
+    const target =
+      event.key === "ArrowDown"
+        ? rows[index + 1]
+        : event.key === "ArrowUp"
+          ? rows[index - 1]
+          : event.key === "Home"
+            ? rows[0]
+            : event.key === "End"
+              ? rows[rows.length - 1]
+              : undefined;
+
+    if (target) {
+      event.preventDefault();
+      setActiveRowId(target.dataset.rowId ?? null);
+      target.focus();
+    }
+  };
+
+  const focusableRowId = paginatedData.some(
+    (item) => getRowId(item) === activeRowId,
+  )
+    ? activeRowId
+    : paginatedData[0] && getRowId(paginatedData[0]);
+
+  const [singularName, pluralName] = itemName;
+  const resultSummary =
+    groupedData.length === 0
+      ? `No ${pluralName} found`
+      : `${groupedData.length} ${groupedData.length === 1 ? singularName : pluralName} found${
+          totalPages > 1 ? `, showing page ${page} of ${totalPages}` : ""
+        }`;
+
+  const hasToolbarRow =
+    !!toolbar ||
+    (showSortControl && sortOptions.length > 0) ||
+    exporters.length > 0;
+
+  return (
+    <div
+      className={`flex flex-col gap-4 not-content text-sm font-sans ${className}`}
+    >
+      <div role="status" aria-live="polite" className="sr-only">
+        {announceResults ? resultSummary : ""}
+      </div>
+
+      {(getSearchFields || hasFilters) && (
+        <div className="flex flex-col md:flex-row gap-3">
+          {getSearchFields && (
+            <div className="relative flex-grow">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                placeholder={searchPlaceholder}
+                aria-label={`Search ${pluralName}`}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg py-2 pl-10 pr-4 text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/50 outline-none transition-all placeholder:text-slate-500 hover:border-slate-600"
+                value={state.search}
+                onChange={(event) =>
+                  updateState({ search: event.target.value })
+                }
+              />
+            </div>
+          )}
+
+          {hasFilters && (
+            <div className="relative min-w-[200px]" ref={filterRef}>
+              <button
+                onClick={() => setIsFilterOpen(!isFilterOpen)}
+                aria-haspopup="dialog"
+                aria-expanded={isFilterOpen}
+                aria-controls={filterPanelId}
+                className={`w-full flex items-center justify-between bg-slate-900/50 border rounded-lg py-2 pl-3 pr-3 text-slate-200 transition-colors ${isFilterOpen ? "border-blue-500 ring-1 ring-blue-500/50" : "border-slate-700 hover:border-slate-600"}`}
+              >
+                <div className="flex items-center gap-2 overflow-hidden">
+                  <Filter className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                  <span className="truncate">
+                    {activeFilterCount === 0
+                      ? "Filter"
+                      : `${activeFilterCount} active`}
+                  </span>
+                </div>
+                <ChevronDown
+                  className={`w-4 h-4 text-slate-400 transition-transform ${isFilterOpen ? "rotate-180" : ""}`}
+                />
+              </button>
+
+              {isFilterOpen && (
+                <div
+                  ref={filterPanelRef}
+                  id={filterPanelId}
+                  role="dialog"
+                  aria-label={`Filter ${pluralName}`}
+                  className="absolute z-50 top-full left-0 right-0 mt-2 bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden animate-in fade-in zoom-in-95 duration-100 ring-1 ring-black/50"
+                >
+                  <div className="max-h-[60vh] overflow-y-auto">
+                    {filterControls}
+
+                    {facetStats.map(({ facet, values, counts }) => (
+                      <DataTableFilterSection
+                        key={facet.key}
+                        title={facet.label}
+                      >
+                        <div className="p-1">
+                          {values.map((value) => {
+                            const selected = state.facets[facet.key] ?? [];
+
+                            return (
+                              <FacetOption
+                                key={value}
+                                label={facet.formatValue?.(value) ?? value}
+                                count={counts[value]}
+                                checked={selected.includes(value)}
+                                onChange={() =>
+                                  updateState({
+                                    facets: {
+                                      ...state.facets,
+                                      [facet.key]: toggleValue(selected, value),
+                                    },
+                                  })
+                                }
+                              />
+                            );
+                          })}
+                        </div>
+                      </DataTableFilterSection>
+                    ))}
+                  </div>
+
+                  {activeFilterCount > 0 && (
+                    <div className="p-2 border-t border-slate-800 bg-slate-900">
+                      <button
+                        onClick={clearFilters}
+                        className="w-full text-xs text-center text-slate-400 hover:text-slate-200 py-1 transition-colors"
+                      >
+                        Clear selection
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={clearFilters}
+            disabled={isClearDisabled}
+            className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors whitespace-nowrap ${
+              isClearDisabled
+                ? "bg-slate-900/30 border-slate-800 text-slate-600 cursor-not-allowed"
+                : "bg-slate-900/50 hover:bg-slate-800 border-slate-700 text-slate-300 hover:text-white"
+            }`}
+          >
+            <X className={`w-4 h-4 ${isClearDisabled ? "opacity-50" : ""}`} />
+            <span className="sr-only md:not-sr-only">Clear</span>
+          </button>
+        </div>
+      )}
+
+      {hasToolbarRow && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {toolbar}
+          {showSortControl && sortOptions.length > 0 && (
+            <div className="flex items-center gap-1 md:ml-auto">
+              <label htmlFor={sortSelectId} className="text-slate-400 px-1">
+                Sort by
+              </label>
+              <select
+                id={sortSelectId}
+                value={state.sort?.key ?? ""}
+                onChange={(event) => {
+                  const key = event.target.value;
+                  updateState({
+                    sort: key
+                      ? { key, direction: state.sort?.direction ?? "asc" }
+                      : null,
+                  });
+                }}
+                className="bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200 hover:border-slate-600 focus:border-blue-500 outline-none transition-colors"
+              >
+                <option value="">
+                  {state.search && getSearchFields ? "Relevance" : "Default"}
+                </option>
+                {sortOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() =>
+                  state.sort &&
+                  updateState({
+                    sort: {
+                      ...state.sort,
+                      direction:
+                        state.sort.direction === "asc" ? "desc" : "asc",
+                    },
+                  })
+                }
+                disabled={!state.sort}
+                title={
+                  state.sort?.direction === "desc" ? "Descending" : "Ascending"
+                }
+                aria-label={
+                  state.sort?.direction === "desc"
+                    ? "Sorted descending, switch to ascending"
+                    : "Sorted ascending, switch to descending"
+                }
+                className="p-2 border border-slate-700 rounded-lg text-slate-400 hover:text-slate-200 hover:border-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                {state.sort?.direction === "desc" ? (
+                  <ArrowDown className="w-3.5 h-3.5" />
+                ) : (
+                  <ArrowUp className="w-3.5 h-3.5" />
+                )}
+              </button>
+            </div>
+          )}
+          {exporters.length > 0 && (
+            <div className="flex items-center gap-1">
+              <span className="flex items-center gap-1 text-slate-400 px-1">
+                <Download className="w-3.5 h-3.5" />
+                Export
+              </span>
+              {exporters.map((exporter) => (
+                <button
+                  key={exporter.label}
+                  onClick={() => exporter.onExport(groupedData)}
+                  disabled={groupedData.length === 0}
+                  title={`Download the ${groupedData.length} matching ${pluralName} as ${exporter.label}`}
+                  className={`${dataTableButtonClassName(false)} disabled:opacity-40 disabled:cursor-not-allowed`}
+                >
+                  {exporter.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {beforeTable}
+
+      <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/30">
+        <div className="overflow-x-auto">
+          {renderView ? (
+            renderView(paginatedData)
+          ) : (
+            <table
+              className={`w-full text-left border-collapse ${tableClassName}`}
+            >
+              <thead>
+                <tr className="bg-slate-900/80 border-b border-slate-800 text-slate-400 text-xs uppercase tracking-wider">
+                  {columns.map((column) => (
+                    <th
+                      key={column.key}
+                      className={`p-4 font-semibold ${column.headerClassName ?? ""}`}
+                      aria-sort={
+                        column.sortKey ? getAriaSort(column.sortKey) : undefined
+                      }
+                    >
+                      {column.sortKey
+                        ? renderSortHeader(column.sortKey, column.header)
+                        : column.header}
+                    </th>
+                  ))}
+                  {hasActionsColumn && (
+                    <th className="p-4 w-20">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody
+                ref={tableBodyRef}
+                className="divide-y divide-slate-800/50"
+              >
+                {paginatedData.length > 0 ? (
+                  paginatedData.map((item, idx) => {
+                    const id = getRowId(item);
+                    const group = groupBy?.(item);
+                    const isFirstOfGroup =
+                      group !== undefined &&
+                      (idx === 0 ||
+                        groupBy?.(paginatedData[idx - 1]) !== group);
+                    const isExpandable = canExpand(item);
+                    const isExpanded = isExpandable && expandedRow === id;
+                    const context: DataTableRowContext = {
+                      highlights: highlightsById.get(id) ?? {},
+                      isExpanded,
+                    };
+                    const detailsId = `${baseId}-details-${id}`;
+
+                    return (
+                      <React.Fragment key={id}>
+                        {isFirstOfGroup && (
+                          <tr className="bg-slate-900/60">
+                            <th
+                              colSpan={columnCount}
+                              scope="colgroup"
+                              className="px-4 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider"
+                            >
+                              {group}{" "}
+                              <span className="font-normal text-slate-500 tabular-nums">
+                                ({groupSizes.get(group)})
+                              </span>
+                            </th>
+                          </tr>
+                        )}
+                        <tr
+                          data-row-id={id}
+                          tabIndex={focusableRowId === id ? 0 : -1}
+                          aria-expanded={isExpandable ? isExpanded : undefined}
+                          aria-controls={isExpanded ? detailsId : undefined}
+                          className={`transition-colors group outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${
+                            isExpandable ? "cursor-pointer" : ""
+                          } ${
+                            isExpanded
+                              ? "bg-slate-800/60"
+                              : "hover:bg-slate-800/40"
+                          }`}
+                          onFocus={() => setActiveRowId(id)}
+                          onKeyDown={(event) =>
+                            handleRowKeyDown(event, id, isExpandable)
+                          }
+                          onClick={() => isExpandable && toggleExpandedRow(id)}
+                        >
+                          {columns.map((column) => (
+                            <td
+                              key={column.key}
+                              className={column.cellClassName ?? "p-4"}
+                            >
+                              {column.render(item, context)}
+                            </td>
+                          ))}
+                          {hasActionsColumn && (
+                            <td className="p-4">
+                              <div className="flex items-center justify-end gap-1">
+                                {renderRowActions?.(item)}
+                                {isExpandable && (
+                                  <button
+                                    onClick={(event) => {
+                                      event.stopPropagation();
+                                      toggleExpandedRow(id);
+                                    }}
+                                    aria-expanded={isExpanded}
+                                    aria-controls={
+                                      isExpanded ? detailsId : undefined
+                                    }
+                                    aria-label={`${
+                                      isExpanded ? "Hide" : "Show"
+                                    } details for ${getRowLabel(item)}`}
+                                    className={`p-1 rounded-full w-6 h-6 flex items-center justify-center transition-all ${
+                                      isExpanded
+                                        ? "bg-slate-700/50 text-blue-400 rotate-180"
+                                        : "hover:bg-slate-700/30 text-slate-500 group-hover:text-blue-400"
+                                    }`}
+                                  >
+                                    <ChevronDown className="w-4 h-4" />
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          )}
+                        </tr>
+                        {isExpanded && renderDetails && (
+                          <tr
+                            id={detailsId}
+                            className="bg-slate-800/30 border-b border-slate-800/50 animate-in fade-in duration-200"
+                          >
+                            <td
+                              colSpan={columnCount}
+                              className="px-4 pb-4 pt-0"
+                            >
+                              <div className="ml-4 pl-4 border-l border-blue-500/30 py-2 flex flex-col gap-4">
+                                {renderDetails(item, context)}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td
+                      colSpan={columnCount}
+                      className="p-8 text-center text-slate-500"
+                    >
+                      {emptyMessage}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-slate-800 bg-slate-900/30">
+            <div className="text-xs text-slate-500">
+              Showing {groupedData.length} {pluralName}
+            </div>
+            <nav aria-label="Pagination" className="flex items-center gap-2">
+              <button
+                onClick={() => handlePageChange(page - 1)}
+                disabled={page === 1}
+                aria-label="Previous page"
+                className="p-2 rounded hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-slate-400"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <div className="flex items-center gap-1">
+                {Array.from({ length: totalPages }, (_, idx) => idx + 1).map(
+                  (pageNumber) => (
+                    <button
+                      key={pageNumber}
+                      onClick={() => handlePageChange(pageNumber)}
+                      aria-label={`Page ${pageNumber}`}
+                      aria-current={page === pageNumber ? "page" : undefined}
+                      className={`w-8 h-8 flex items-center justify-center rounded text-xs font-medium transition-all ${
+                        page === pageNumber
+                          ? "bg-blue-600 text-white shadow-lg shadow-blue-900/20"
+                          : "text-slate-400 hover:bg-slate-800 hover:text-white"
+                      }`}
+                    >
+                      {pageNumber}
+                    </button>
+                  ),
+                )}
+              </div>
+              <button
+                onClick={() => handlePageChange(page + 1)}
+                disabled={page === totalPages}
+                aria-label="Next page"
+                className="p-2 rounded hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-slate-400"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </nav>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { HighlightRange } from "../lib/fuzzySearch";
+
+export default function HighlightedText({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges?: HighlightRange[];
+}) {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  ranges.forEach(([start, end], idx) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark
+        key={idx}
+        className="bg-yellow-400/20 text-inherit rounded-sm px-px"
+      >
+        {text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+}
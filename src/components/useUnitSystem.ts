@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_SYSTEM_CHANGE_EVENT,
+  getUnitSystem,
+} from "../lib/units";
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener(UNIT_SYSTEM_CHANGE_EVENT, onChange);
+  return () => window.removeEventListener(UNIT_SYSTEM_CHANGE_EVENT, onChange);
+};
+
+/**
+ * The reader's unit system. Renders as metric on the server and during
+ * hydration, then follows the preference picked in the header, including
+ * changes made after the page loaded.
+ */
+export function useUnitSystem() {
+  return useSyncExternalStore(
+    subscribe,
+    getUnitSystem,
+    () => DEFAULT_UNIT_SYSTEM,
+  );
+}
@@ -1,20 +1,215 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from "react";
-import { Footprints, Calculator, Gamepad2, RotateCcw } from "lucide-react";
+import {
+  Footprints,
+  Calculator,
+  Gamepad2,
+  RotateCcw,
+  Radio,
+  AlertTriangle,
+  Check,
+} from "lucide-react";
+import {
+  OVERRIDE_PRESETS,
+  TEMP_OFFSET_AMOUNT,
+  computeAutoWalkSpeed,
+  getNextOverrideIndex,
+  getOverridePreset,
+  snapMultiplier,
+  stepTreadmillSpeed,
+} from "../../lib/vrti/autoWalk";
+import {
+  convertSpeed,
+  convertSpeedRange,
+  getDefaultSpeedRange,
+  getOverridePresetReach,
+  getSpeedRangeEffect,
+  getTopSpeed,
+  quantizeSpeed,
+  validateSpeedRange,
+  type SpeedRange,
+  type SpeedUnit,
+} from "../../lib/vrti/speedRange";
+import type { TreadmillSpeedProfile } from "../../lib/vrti/treadmillData";
+import {
+  DEFAULT_VRTI_PORT,
+  connectMirror,
+  getVrtiWebSocketUrl,
+  isSpeedMismatch,
+  isValidPort,
+  type AutoWalkSettings,
+  type MirrorStatus,
+  type TreadmillState,
+} from "../../lib/vrti/liveMirror";
+import type { InputMode } from "../../lib/vrti/inputMode";
+import { SPEED_UNITS } from "../../lib/units";
+import { useUnitSystem } from "../useUnitSystem";
+import InputModePanel from "./InputModePanel";
+import CommandExportPanel from "./CommandExportPanel";
+
+interface AutoWalkCalculatorProps {
+  // Treadmills to pick a speed range from, see `AutoWalkPlayground.astro`
+  treadmills?: TreadmillSpeedProfile[];
+}
+
+// In km/h
+const DEFAULT_TARGET_SPEED = 5.0;
+const DEFAULT_PROFILE = "default";
+const CUSTOM_PROFILE = "custom";
+
+const NO_TREADMILLS: TreadmillSpeedProfile[] = [];
 
 const TreadmillIcon = () => <Footprints size={16} />;
 const VRTIIcon = () => <Calculator size={16} />;
 const GameControllerIcon = () => <Gamepad2 size={16} />;
 const ResetIcon = () => <RotateCcw size={14} />;
 
-function useSpeedUnit() {
-  return useMemo(() => {
-    try {
-      const locale = navigator.language || "en-US";
-      return locale === "en-US" ? "mph" : "km/h";
-    } catch {
-      return "km/h";
+interface CustomRange {
+  min: string;
+  max: string;
+  step: string;
+  // The unit the range was entered in
+  unit: SpeedUnit;
+}
+
+// Shows an entered range in another unit, keeping it as typed otherwise
+function convertCustomRange(range: CustomRange, unit: SpeedUnit): CustomRange {
+  if (range.unit === unit) {
+    return range;
+  }
+
+  const convert = (value: string) => {
+    const parsed = Number.parseFloat(value);
+    return Number.isFinite(parsed)
+      ? String(Number(convertSpeed(parsed, range.unit, unit).toFixed(2)))
+      : value;
+  };
+
+  return {
+    min: convert(range.min),
+    max: convert(range.max),
+    step: convert(range.step),
+    unit,
+  };
+}
+
+// Finer steps, like 0.1 km/h converted to mph, need an extra decimal
+const formatSpeed = (value: number, range: SpeedRange) =>
+  value.toFixed(range.step < 0.1 ? 2 : 1);
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const fieldStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderRadius: 4,
+  border: "1px solid rgba(255,255,255,0.15)",
+  background: "rgba(255,255,255,0.08)",
+  color: "#fff",
+  fontSize: 11,
+  fontFamily: "inherit",
+};
+
+const optionStyle: React.CSSProperties = {
+  background: "#1e293b",
+  color: "#fff",
+};
+
+function RangeInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 4,
+        fontSize: 11,
+        color: "rgba(255,255,255,0.6)",
+      }}
+    >
+      {label}
+      <input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        step="any"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={{ ...fieldStyle, width: 64 }}
+      />
+    </label>
+  );
+}
+
+// Follows a VRTI instance over its WebSocket API while a port is given. The
+// mirrored state is dropped whenever the connection is lost.
+function useLiveMirror(port: number | null) {
+  const [status, setStatus] = useState<MirrorStatus>({ state: "closed" });
+  const [treadmill, setTreadmill] = useState<TreadmillState | null>(null);
+  const [settings, setSettings] = useState<AutoWalkSettings | null>(null);
+  const [reportedSpeed, setReportedSpeed] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (port === null) {
+      return;
     }
-  }, []);
+
+    const reset = () => {
+      setTreadmill(null);
+      setSettings(null);
+      setReportedSpeed(null);
+    };
+
+    const connection = connectMirror({
+      url: getVrtiWebSocketUrl(port),
+      onStatus: (next) => {
+        setStatus(next);
+        if (next.state === "waiting") {
+          reset();
+        }
+      },
+      onEvent: (message) => {
+        if (message.event === "TreadmillStateUpdated") {
+          setTreadmill(message.payload);
+        } else if (message.event === "AutoWalkSettingsUpdated") {
+          setSettings(message.payload);
+        } else {
+          setReportedSpeed(message.payload.speed);
+        }
+      },
+    });
+
+    return () => {
+      connection.close();
+      reset();
+    };
+  }, [port]);
+
+  return { status, treadmill, settings, reportedSpeed };
+}
+
+function getMirrorStatusText(
+  status: MirrorStatus,
+  hasState: boolean,
+  port: number,
+) {
+  switch (status.state) {
+    case "connecting":
+      return status.attempt > 0
+        ? `Reconnecting to VRTI (attempt ${status.attempt + 1})...`
+        : "Connecting to VRTI...";
+    case "connected":
+      return hasState ? "Mirroring VRTI" : "Connected, waiting for VRTI...";
+    case "waiting":
+      return `Can't reach VRTI on port ${port}, retrying in ${status.delay / 1000}s`;
+    case "closed":
+      return "";
+  }
 }
 
 function LED({ active }: { active: boolean }) {
@@ -196,74 +391,159 @@ function Section({
   );
 }
 
-const MAX_SPEED = 10.0;
-const ANIMATION_SPEED = 0.01;
-const MIN_FINAL_SPEED = 0.1;
-const TEMP_OFFSET_AMOUNT = 0.25;
-const MULTIPLIER_SNAP_THRESHOLD = 0.08;
-
-export default function AutoWalkCalculator() {
-  const unit = useSpeedUnit();
-  const [targetSpeed, setTargetSpeed] = useState(5.0);
-  const [currentSpeed, setCurrentSpeed] = useState(5.0);
-  const [multiplier, setMultiplier] = useState(1.0);
+export default function AutoWalkCalculator({
+  treadmills = NO_TREADMILLS,
+}: AutoWalkCalculatorProps) {
+  const unit = SPEED_UNITS[useUnitSystem()];
+  const [profile, setProfile] = useState(DEFAULT_PROFILE);
+  const [enteredRange, setEnteredRange] = useState<CustomRange>({
+    min: "0.5",
+    max: "6",
+    step: "0.1",
+    unit: "km/h",
+  });
+  // Treadmill speeds are kept in km/h, like VRTI reports them, and shown in
+  // the reader's unit
+  const [manualTargetSpeed, setTargetSpeed] = useState(DEFAULT_TARGET_SPEED);
+  const [animatedSpeed, setCurrentSpeed] = useState(DEFAULT_TARGET_SPEED);
+  const [manualMultiplier, setMultiplier] = useState(1.0);
   const [overrideIndex, setOverrideIndex] = useState<number>(-1);
-  const [tempOffset, setTempOffset] = useState(0);
+  const [heldOffset, setTempOffset] = useState(0);
   const [holdingOffset, setHoldingOffset] = useState<"down" | "up" | null>(
     null,
   );
+  const [manualInputMode, setInputMode] = useState<InputMode>("VRChatOSC");
+  const [mirrorEnabled, setMirrorEnabled] = useState(false);
+  const [mirrorPort, setMirrorPort] = useState(String(DEFAULT_VRTI_PORT));
+
+  const port = Number(mirrorPort);
+  const mirror = useLiveMirror(
+    mirrorEnabled && isValidPort(port) ? port : null,
+  );
 
-  const presets = [0.25, 0.5, 0.75, 1.0] as const;
-  const override = overrideIndex >= 0 ? presets[overrideIndex] : null;
+  // The widget only follows VRTI once it reported both its treadmill state
+  // and auto walk settings, and is read-only while it does
+  const live =
+    mirror.treadmill && mirror.settings
+      ? { treadmill: mirror.treadmill, settings: mirror.settings }
+      : null;
+
+  const targetSpeedKmh = live ? live.treadmill.targetSpeed : manualTargetSpeed;
+  const currentSpeedKmh = live ? live.treadmill.currentSpeed : animatedSpeed;
+  const targetSpeed = convertSpeed(targetSpeedKmh, "km/h", unit);
+  const currentSpeed = convertSpeed(currentSpeedKmh, "km/h", unit);
+  const multiplier = live ? live.settings.speedMultiplier : manualMultiplier;
+  const override = live
+    ? live.settings.speedOverride
+    : getOverridePreset(overrideIndex);
   const isOverride = override !== null;
+  const tempOffset = live ? live.settings.speedOffset : heldOffset;
+  const inputMode = live ? live.settings.inputMode : manualInputMode;
+  const activeOverrideIndex = live
+    ? OVERRIDE_PRESETS.findIndex((preset) => preset === override)
+    : overrideIndex;
+  const activeOffset = live
+    ? tempOffset < 0
+      ? "down"
+      : tempOffset > 0
+        ? "up"
+        : null
+    : holdingOffset;
+
+  const customRange = useMemo(
+    () => convertCustomRange(enteredRange, unit),
+    [enteredRange, unit],
+  );
+  const customRangeError = useMemo(
+    () =>
+      validateSpeedRange({
+        min: Number.parseFloat(customRange.min),
+        max: Number.parseFloat(customRange.max),
+        step: Number.parseFloat(customRange.step),
+      }),
+    [customRange],
+  );
+
+  // The treadmill's speed range, in the unit the calculator shows
+  const liveSpeedRange = live?.treadmill.deviceSpeedRange;
+  const speedRange = useMemo((): SpeedRange => {
+    if (liveSpeedRange) {
+      return convertSpeedRange(liveSpeedRange, "km/h", unit);
+    }
+    if (profile === CUSTOM_PROFILE) {
+      return customRangeError
+        ? getDefaultSpeedRange(unit)
+        : {
+            min: Number.parseFloat(customRange.min),
+            max: Number.parseFloat(customRange.max),
+            step: Number.parseFloat(customRange.step),
+          };
+    }
+
+    const range = treadmills.find((item) => item.id === profile)?.speedRange;
+    return range
+      ? convertSpeedRange(range, range.unit, unit)
+      : getDefaultSpeedRange(unit);
+  }, [
+    liveSpeedRange,
+    profile,
+    customRange,
+    customRangeError,
+    treadmills,
+    unit,
+  ]);
+
+  // Snaps a speed shown in the calculator's unit to the step grid, in km/h
+  const toGridSpeedKmh = useCallback(
+    (speed: number) =>
+      convertSpeed(quantizeSpeed(speed, speedRange), unit, "km/h"),
+    [speedRange, unit],
+  );
+
+  const defaultTargetSpeed = toGridSpeedKmh(
+    convertSpeed(DEFAULT_TARGET_SPEED, "km/h", unit),
+  );
+
+  // Keep the target on the treadmill's step grid
+  useEffect(() => {
+    setTargetSpeed((prev) => toGridSpeedKmh(convertSpeed(prev, "km/h", unit)));
+  }, [toGridSpeedKmh, unit]);
+
+  const mirrorStatusText = mirrorEnabled
+    ? isValidPort(port)
+      ? getMirrorStatusText(mirror.status, live !== null, port)
+      : "Enter a port between 1 and 65535"
+    : "";
+
+  const rangeEffect = getSpeedRangeEffect(speedRange, multiplier, unit);
+  const presetReach = getOverridePresetReach(speedRange, multiplier, unit);
 
   const animationRef = useRef<number | undefined>(undefined);
   useEffect(() => {
     const animate = () => {
-      setCurrentSpeed((prev) => {
-        const diff = targetSpeed - prev;
-        if (Math.abs(diff) < 0.05) return targetSpeed;
-        return prev + diff * ANIMATION_SPEED;
-      });
+      setCurrentSpeed((prev) => stepTreadmillSpeed(prev, manualTargetSpeed));
       animationRef.current = requestAnimationFrame(animate);
     };
     animationRef.current = requestAnimationFrame(animate);
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [targetSpeed]);
-
-  const baseSpeed = Math.min(currentSpeed / MAX_SPEED, 1);
-  const postMultiplierSpeed =
-    override !== null
-      ? targetSpeed >= 0.0
-        ? override
-        : Math.min(baseSpeed, override)
-      : baseSpeed * multiplier;
-
-  // Match Rust backend logic: prevent offset from bringing final speed below 0.1
-  const effectiveOffset =
-    tempOffset < 0
-      ? postMultiplierSpeed >= MIN_FINAL_SPEED
-        ? Math.max(tempOffset, MIN_FINAL_SPEED - postMultiplierSpeed)
-        : 0.0
-      : tempOffset;
-  const finalSpeed = Math.max(
-    0,
-    Math.min(1, postMultiplierSpeed + effectiveOffset),
-  );
+  }, [manualTargetSpeed]);
+
+  const { finalSpeed } = computeAutoWalkSpeed({
+    speed: currentSpeedKmh,
+    targetSpeed: targetSpeedKmh,
+    multiplier,
+    override,
+    tempOffset,
+  });
 
   const handleOverrideClick = useCallback(() => {
-    setOverrideIndex((prev) => (prev >= 3 ? -1 : prev + 1));
+    setOverrideIndex(getNextOverrideIndex);
   }, []);
 
-  // Snap multiplier to 1.0 when close for easier precise adjustment
   const handleMultiplierChange = useCallback((v: number) => {
-    if (Math.abs(v - 1.0) < MULTIPLIER_SNAP_THRESHOLD) {
-      setMultiplier(1.0);
-    } else {
-      setMultiplier(v);
-    }
+    setMultiplier(snapMultiplier(v));
   }, []);
 
   const handleSlowDown = useCallback(() => {
@@ -280,8 +560,8 @@ export default function AutoWalkCalculator() {
   }, []);
 
   const handleResetTreadmill = useCallback(() => {
-    setTargetSpeed(5.0);
-  }, []);
+    setTargetSpeed(defaultTargetSpeed);
+  }, [defaultTargetSpeed]);
 
   const handleResetVRTI = useCallback(() => {
     setMultiplier(1.0);
@@ -373,13 +653,126 @@ export default function AutoWalkCalculator() {
           }
         }
       `}</style>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 8,
+          fontSize: 11,
+        }}
+      >
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+            color: "rgba(255,255,255,0.6)",
+          }}
+        >
+          Treadmill
+          <select
+            value={profile}
+            onChange={(e) => setProfile(e.target.value)}
+            disabled={!!live}
+            style={fieldStyle}
+          >
+            <option value={DEFAULT_PROFILE} style={optionStyle}>
+              Any treadmill
+            </option>
+            <option value={CUSTOM_PROFILE} style={optionStyle}>
+              Enter speed range manually
+            </option>
+            {treadmills.length > 0 && (
+              <optgroup label="Treadmills" style={optionStyle}>
+                {treadmills.map((item) => (
+                  <option key={item.id} value={item.id} style={optionStyle}>
+                    {item.make} {item.model}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        {profile === CUSTOM_PROFILE && (
+          <>
+            <RangeInput
+              label="Min"
+              value={customRange.min}
+              onChange={(min) => setEnteredRange({ ...customRange, min })}
+            />
+            <RangeInput
+              label="Max"
+              value={customRange.max}
+              onChange={(max) => setEnteredRange({ ...customRange, max })}
+            />
+            <RangeInput
+              label="Step"
+              value={customRange.step}
+              onChange={(step) => setEnteredRange({ ...customRange, step })}
+            />
+            <span style={{ color: "rgba(255,255,255,0.4)" }}>{unit}</span>
+            {customRangeError && (
+              <span role="alert" style={{ color: "#f59e0b" }}>
+                {customRangeError}
+              </span>
+            )}
+          </>
+        )}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 8,
+          fontSize: 11,
+          color: "rgba(255,255,255,0.6)",
+        }}
+      >
+        <button
+          onClick={() => setMirrorEnabled((prev) => !prev)}
+          aria-pressed={mirrorEnabled}
+          title="Follow the treadmill and auto walk settings of VRTI running on this PC"
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+            padding: "4px 8px",
+            borderRadius: 4,
+            border: "none",
+            fontSize: 11,
+            fontWeight: 600,
+            cursor: "pointer",
+            background: mirrorEnabled
+              ? "rgb(59, 130, 246)"
+              : "rgba(255,255,255,0.15)",
+            color: mirrorEnabled ? "#000" : "rgba(255,255,255,0.6)",
+          }}
+        >
+          <Radio size={14} />
+          Live mirror {mirrorEnabled ? "on" : "off"}
+        </button>
+        {mirrorEnabled && (
+          <>
+            <RangeInput
+              label="Port"
+              value={mirrorPort}
+              onChange={setMirrorPort}
+            />
+            <span role="status">{mirrorStatusText}</span>
+          </>
+        )}
+      </div>
       <div className="awc-grid">
         <Section
           title="Treadmill"
           icon={<TreadmillIcon />}
           bgColor="rgba(59, 130, 246, 0.1)"
           onReset={handleResetTreadmill}
-          showReset={targetSpeed !== 5.0}
+          showReset={!live && manualTargetSpeed !== defaultTargetSpeed}
         >
           <div
             style={{
@@ -417,7 +810,7 @@ export default function AutoWalkCalculator() {
                     fontVariantNumeric: "tabular-nums",
                   }}
                 >
-                  {targetSpeed.toFixed(1)}{" "}
+                  {formatSpeed(targetSpeed, speedRange)}{" "}
                   <span
                     style={{ color: "rgba(255,255,255,0.4)", fontSize: 10 }}
                   >
@@ -428,19 +821,21 @@ export default function AutoWalkCalculator() {
               <div style={{ position: "relative", padding: "4px 0" }}>
                 <input
                   type="range"
-                  min={0}
-                  max={10}
-                  step={0.5}
+                  min={speedRange.min}
+                  max={getTopSpeed(speedRange)}
+                  step={speedRange.step}
                   value={targetSpeed}
-                  onChange={(e) => setTargetSpeed(parseFloat(e.target.value))}
-                  disabled={isOverride}
+                  onChange={(e) =>
+                    setTargetSpeed(toGridSpeedKmh(parseFloat(e.target.value)))
+                  }
+                  disabled={isOverride || !!live}
                   style={{
                     width: "100%",
                     height: 6,
                     borderRadius: 3,
                     appearance: "none",
                     background: "rgba(255,255,255,0.15)",
-                    cursor: isOverride ? "not-allowed" : "pointer",
+                    cursor: isOverride || live ? "not-allowed" : "pointer",
                     accentColor: "rgb(59, 130, 246)",
                   }}
                 />
@@ -465,7 +860,7 @@ export default function AutoWalkCalculator() {
                   fontVariantNumeric: "tabular-nums",
                 }}
               >
-                {currentSpeed.toFixed(1)}
+                {formatSpeed(currentSpeed, speedRange)}
               </span>
               <span
                 style={{
@@ -487,7 +882,9 @@ export default function AutoWalkCalculator() {
           icon={<VRTIIcon />}
           bgColor="rgba(139, 92, 246, 0.1)"
           onReset={handleResetVRTI}
-          showReset={multiplier !== 1.0 || overrideIndex !== -1}
+          showReset={
+            !live && (manualMultiplier !== 1.0 || overrideIndex !== -1)
+          }
         >
           <div
             style={{
@@ -538,14 +935,14 @@ export default function AutoWalkCalculator() {
                   onChange={(e) =>
                     handleMultiplierChange(parseFloat(e.target.value))
                   }
-                  disabled={isOverride}
+                  disabled={isOverride || !!live}
                   style={{
                     width: "100%",
                     height: 6,
                     borderRadius: 3,
                     appearance: "none",
                     background: "rgba(255,255,255,0.15)",
-                    cursor: isOverride ? "not-allowed" : "pointer",
+                    cursor: isOverride || live ? "not-allowed" : "pointer",
                     accentColor: "rgb(139, 92, 246)",
                   }}
                 />
@@ -592,12 +989,13 @@ export default function AutoWalkCalculator() {
                     color: "rgba(255,255,255,0.7)",
                   }}
                 >
-                  {isOverride ? `${override * 100}%` : "Off"}
+                  {isOverride ? formatPercent(override) : "Off"}
                 </span>
               </div>
               <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
                 <button
                   onClick={handleOverrideClick}
+                  disabled={!!live}
                   style={{
                     width: 44,
                     height: 28,
@@ -605,7 +1003,7 @@ export default function AutoWalkCalculator() {
                     border: "none",
                     fontSize: 10,
                     fontWeight: 600,
-                    cursor: "pointer",
+                    cursor: live ? "not-allowed" : "pointer",
                     background: isOverride
                       ? "rgb(139, 92, 246)"
                       : "rgba(255,255,255,0.15)",
@@ -616,10 +1014,12 @@ export default function AutoWalkCalculator() {
                   {isOverride ? "ON" : "OFF"}
                 </button>
                 <div style={{ display: "flex", gap: 6 }}>
-                  {presets.map((p, i) => (
+                  {OVERRIDE_PRESETS.map((p, i) => (
                     <LED
                       key={p}
-                      active={overrideIndex >= i && overrideIndex !== -1}
+                      active={
+                        activeOverrideIndex >= i && activeOverrideIndex !== -1
+                      }
                     />
                   ))}
                 </div>
@@ -680,6 +1080,7 @@ export default function AutoWalkCalculator() {
                   onMouseLeave={handleOffsetRelease}
                   onTouchStart={handleSlowDown}
                   onTouchEnd={handleOffsetRelease}
+                  disabled={!!live}
                   style={{
                     flex: 1,
                     height: 28,
@@ -687,13 +1088,13 @@ export default function AutoWalkCalculator() {
                     border: "none",
                     fontSize: 9,
                     fontWeight: 500,
-                    cursor: "pointer",
+                    cursor: live ? "not-allowed" : "pointer",
                     background:
-                      holdingOffset === "down"
+                      activeOffset === "down"
                         ? "rgb(34, 197, 94)"
                         : "rgba(255,255,255,0.15)",
                     color:
-                      holdingOffset === "down"
+                      activeOffset === "down"
                         ? "#000"
                         : "rgba(255,255,255,0.6)",
                     transition: "all 0.1s ease",
@@ -707,6 +1108,7 @@ export default function AutoWalkCalculator() {
                   onMouseLeave={handleOffsetRelease}
                   onTouchStart={handleCatchUp}
                   onTouchEnd={handleOffsetRelease}
+                  disabled={!!live}
                   style={{
                     flex: 1,
                     height: 28,
@@ -714,13 +1116,13 @@ export default function AutoWalkCalculator() {
                     border: "none",
                     fontSize: 9,
                     fontWeight: 500,
-                    cursor: "pointer",
+                    cursor: live ? "not-allowed" : "pointer",
                     background:
-                      holdingOffset === "up"
+                      activeOffset === "up"
                         ? "rgb(34, 197, 94)"
                         : "rgba(255,255,255,0.15)",
                     color:
-                      holdingOffset === "up" ? "#000" : "rgba(255,255,255,0.6)",
+                      activeOffset === "up" ? "#000" : "rgba(255,255,255,0.6)",
                     transition: "all 0.1s ease",
                   }}
                 >
@@ -731,6 +1133,119 @@ export default function AutoWalkCalculator() {
           </div>
         </Section>
       </div>
+      <InputModePanel
+        finalSpeed={finalSpeed}
+        multiplier={multiplier}
+        unit={unit}
+        mode={inputMode}
+        onModeChange={setInputMode}
+        readOnly={!!live}
+      />
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 6,
+          marginTop: 8,
+          padding: 10,
+          borderRadius: 8,
+          border: "1px solid rgba(255,255,255,0.1)",
+          fontSize: 11,
+          color: "rgba(255,255,255,0.6)",
+          lineHeight: 1.5,
+        }}
+      >
+        {live && (
+          <span
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 6,
+              color:
+                live.settings.enabled &&
+                mirror.reportedSpeed !== null &&
+                isSpeedMismatch(mirror.reportedSpeed, finalSpeed)
+                  ? "#f59e0b"
+                  : undefined,
+            }}
+          >
+            {!live.settings.enabled ? (
+              "Auto walk is turned off in VRTI, so there's no walk speed to compare."
+            ) : mirror.reportedSpeed === null ? (
+              "Waiting for VRTI to report its walk speed, which it does when the speed changes."
+            ) : isSpeedMismatch(mirror.reportedSpeed, finalSpeed) ? (
+              <>
+                <AlertTriangle size={14} />
+                VRTI reports {formatPercent(mirror.reportedSpeed)} walk speed,
+                but this calculator computes {formatPercent(finalSpeed)} from
+                the same state.
+              </>
+            ) : (
+              <>
+                <Check size={14} />
+                VRTI reports {formatPercent(mirror.reportedSpeed)} walk speed,
+                matching this calculator.
+              </>
+            )}
+          </span>
+        )}
+        <span>
+          Speed range: {formatSpeed(speedRange.min, speedRange)} to{" "}
+          {formatSpeed(getTopSpeed(speedRange), speedRange)} {unit}, in steps of{" "}
+          {formatSpeed(speedRange.step, speedRange)} {unit}. At{" "}
+          {multiplier.toFixed(2)}x, that covers{" "}
+          {formatPercent(rangeEffect.minWalkSpeed)} to{" "}
+          {formatPercent(rangeEffect.maxWalkSpeed)} walk speed, and each step
+          changes it by {(rangeEffect.walkSpeedPerStep * 100).toFixed(1)}%.{" "}
+          {rangeEffect.fullWalkSpeedAt !== null
+            ? `Full walk speed is reached at ${formatSpeed(rangeEffect.fullWalkSpeedAt, speedRange)} ${unit}.`
+            : "This treadmill never reaches full walk speed at this multiplier."}
+        </span>
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <span>Override presets the treadmill can match on its own:</span>
+          {presetReach.map((reach) => (
+            <span
+              key={reach.preset}
+              title={
+                reach.reachable
+                  ? `${formatPercent(reach.walkSpeed)} walk speed at ${formatSpeed(reach.speed, speedRange)} ${unit}`
+                  : `Out of range, the closest is ${formatPercent(reach.walkSpeed)} walk speed at ${formatSpeed(reach.speed, speedRange)} ${unit}`
+              }
+              style={{
+                padding: "2px 6px",
+                borderRadius: 4,
+                fontVariantNumeric: "tabular-nums",
+                background: reach.reachable
+                  ? "rgba(34, 197, 94, 0.15)"
+                  : "rgba(255,255,255,0.06)",
+                color: reach.reachable ? "#86efac" : "rgba(255,255,255,0.4)",
+                textDecoration: reach.reachable ? "none" : "line-through",
+              }}
+            >
+              {formatPercent(reach.preset)}
+              {reach.reachable &&
+                ` @ ${formatSpeed(reach.speed, speedRange)} ${unit}`}
+            </span>
+          ))}
+        </div>
+      </div>
+      <CommandExportPanel
+        key={unit}
+        settings={{ targetSpeed, unit, multiplier, override }}
+        speedLimit={
+          live
+            ? convertSpeed(live.treadmill.userSpeedLimit, "km/h", unit)
+            : null
+        }
+        defaultSpeedLimit={getTopSpeed(speedRange)}
+      />
     </div>
   );
 }
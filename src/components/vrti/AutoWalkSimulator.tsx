@@ -0,0 +1,288 @@
+import { useId, useMemo, useState } from "react";
+import { AlertTriangle, LineChart } from "lucide-react";
+import {
+  MAX_SPEED,
+  MIN_FINAL_SPEED,
+  TEMP_OFFSET_AMOUNT,
+} from "../../lib/vrti/autoWalk";
+import {
+  getEasingTime,
+  getExampleScenario,
+  parseScenario,
+  simulateScenario,
+  type SimulationSample,
+} from "../../lib/vrti/autoWalkSimulation";
+import { SPEED_UNITS, formatSpeed } from "../../lib/units";
+import { useUnitSystem } from "../useUnitSystem";
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 40 };
+const PLOT_WIDTH = CHART_WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+interface Series {
+  key: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+  getValue: (sample: SimulationSample) => number;
+  // The treadmill speed behind the value, in km/h
+  getSpeed?: (sample: SimulationSample) => number;
+}
+
+// Colors follow the sections of the calculator above
+const SERIES: Series[] = [
+  {
+    key: "target",
+    label: "Treadmill target",
+    color: "rgb(148, 163, 184)",
+    dashed: true,
+    getValue: (sample) => Math.min(sample.targetSpeed / MAX_SPEED, 1),
+    getSpeed: (sample) => sample.targetSpeed,
+  },
+  {
+    key: "treadmill",
+    label: "Treadmill speed",
+    color: "rgb(59, 130, 246)",
+    getValue: (sample) => sample.baseSpeed,
+    getSpeed: (sample) => sample.treadmillSpeed,
+  },
+  {
+    key: "postMultiplier",
+    label: "After multiplier / override",
+    color: "rgb(139, 92, 246)",
+    getValue: (sample) => sample.postMultiplierSpeed,
+  },
+  {
+    key: "final",
+    label: "Game speed",
+    color: "rgb(34, 197, 94)",
+    getValue: (sample) => sample.finalSpeed,
+  },
+];
+
+const HOLD_COLORS = {
+  slowDown: "rgba(245, 158, 11, 0.12)",
+  catchUp: "rgba(34, 197, 94, 0.12)",
+};
+
+const toY = (value: number) =>
+  PADDING.top + (1 - Math.min(Math.max(value, 0), 1)) * PLOT_HEIGHT;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export default function AutoWalkSimulator() {
+  const unitSystem = useUnitSystem();
+  const unit = SPEED_UNITS[unitSystem];
+  // `null` until edited, so that the example follows the unit system
+  const [editedScript, setScript] = useState<string | null>(null);
+  const script = editedScript ?? getExampleScenario(unit);
+  const [inspectTime, setInspectTime] = useState(6);
+  const scriptId = useId();
+  const inspectId = useId();
+
+  const { events, errors } = useMemo(
+    () => parseScenario(script, unit),
+    [script, unit],
+  );
+  const { duration, samples, holds } = useMemo(
+    () => simulateScenario(events),
+    [events],
+  );
+
+  const toX = (time: number) => PADDING.left + (time / duration) * PLOT_WIDTH;
+  const tickInterval = duration > 60 ? 10 : 5;
+  const xTicks = Array.from(
+    { length: Math.floor(duration / tickInterval) + 1 },
+    (_, idx) => idx * tickInterval,
+  );
+
+  const clampedTime = Math.min(inspectTime, duration);
+  const inspected = samples.reduce((closest, sample) =>
+    Math.abs(sample.time - clampedTime) < Math.abs(closest.time - clampedTime)
+      ? sample
+      : closest,
+  );
+
+  return (
+    <div className="flex flex-col gap-4 not-content text-sm font-sans mt-6">
+      <div className="flex flex-col gap-2">
+        <label
+          htmlFor={scriptId}
+          className="text-xs font-semibold text-slate-400 uppercase tracking-wider"
+        >
+          Scenario
+        </label>
+        <textarea
+          id={scriptId}
+          rows={8}
+          spellCheck={false}
+          value={script}
+          onChange={(event) => setScript(event.target.value)}
+          className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/50 outline-none transition-all placeholder:text-slate-600 hover:border-slate-600"
+        />
+        <p className="text-xs text-slate-500">
+          One event per line: <code>5s speed 6</code> (in {unit}, or add{" "}
+          <code>km/h</code> or <code>mph</code>), <code>8s multiplier 1.5</code>
+          , <code>12s override 50%</code> (or <code>off</code>),{" "}
+          <code>15s slow-down 2s</code> and <code>20s catch-up 1s</code>.
+        </p>
+        {errors.length > 0 && (
+          <ul className="flex flex-col gap-1 text-xs text-amber-300">
+            {errors.map((error) => (
+              <li key={error.line} className="flex items-start gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+                Line {error.line}: {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3 p-4 border border-slate-800 rounded-lg bg-slate-900/30">
+        <div className="flex items-center gap-2 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          <LineChart className="w-4 h-4" />
+          Speed over time
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={`Simulated speeds over ${duration} seconds, as a percentage of the full walk speed`}
+        >
+          {holds.map((hold, idx) => (
+            <rect
+              key={idx}
+              x={toX(hold.start)}
+              y={PADDING.top}
+              width={toX(Math.min(hold.end, duration)) - toX(hold.start)}
+              height={PLOT_HEIGHT}
+              fill={HOLD_COLORS[hold.type]}
+            />
+          ))}
+          {[0, 0.25, 0.5, 0.75, 1].map((value) => (
+            <g key={value}>
+              <line
+                x1={PADDING.left}
+                x2={CHART_WIDTH - PADDING.right}
+                y1={toY(value)}
+                y2={toY(value)}
+                stroke="rgba(255,255,255,0.08)"
+              />
+              <text
+                x={PADDING.left - 6}
+                y={toY(value) + 3}
+                textAnchor="end"
+                fontSize={10}
+                fill="rgb(100, 116, 139)"
+              >
+                {formatPercent(value)}
+              </text>
+            </g>
+          ))}
+          {xTicks.map((time) => (
+            <text
+              key={time}
+              x={toX(time)}
+              y={CHART_HEIGHT - 10}
+              textAnchor="middle"
+              fontSize={10}
+              fill="rgb(100, 116, 139)"
+            >
+              {time}s
+            </text>
+          ))}
+          {SERIES.map((series) => (
+            <polyline
+              key={series.key}
+              fill="none"
+              stroke={series.color}
+              strokeWidth={series.dashed ? 1.5 : 2}
+              strokeDasharray={series.dashed ? "4 4" : undefined}
+              strokeLinejoin="round"
+              points={samples
+                .map(
+                  (sample) =>
+                    `${toX(sample.time).toFixed(1)},${toY(series.getValue(sample)).toFixed(1)}`,
+                )
+                .join(" ")}
+            />
+          ))}
+          <line
+            x1={toX(inspected.time)}
+            x2={toX(inspected.time)}
+            y1={PADDING.top}
+            y2={PADDING.top + PLOT_HEIGHT}
+            stroke="rgba(255,255,255,0.4)"
+            strokeDasharray="2 3"
+          />
+        </svg>
+
+        <div className="flex flex-col gap-1">
+          <label
+            htmlFor={inspectId}
+            className="flex justify-between text-xs text-slate-400"
+          >
+            <span>Inspect</span>
+            <span className="tabular-nums text-slate-200">
+              {inspected.time.toFixed(1)}s
+            </span>
+          </label>
+          <input
+            id={inspectId}
+            type="range"
+            min={0}
+            max={duration}
+            step={0.05}
+            value={clampedTime}
+            onChange={(event) =>
+              setInspectTime(Number.parseFloat(event.target.value))
+            }
+            className="w-full accent-slate-300"
+          />
+        </div>
+
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+          {SERIES.map((series) => (
+            <div key={series.key} className="flex flex-col gap-0.5">
+              <dt className="flex items-center gap-1.5 text-slate-400">
+                <span
+                  aria-hidden="true"
+                  className="inline-block w-3 h-0.5"
+                  style={{ background: series.color }}
+                />
+                {series.label}
+              </dt>
+              <dd className="font-semibold text-slate-200 tabular-nums">
+                {formatPercent(series.getValue(inspected))}
+                {series.getSpeed && (
+                  <span className="font-normal text-slate-500">
+                    {" "}
+                    ({formatSpeed(series.getSpeed(inspected), unitSystem)})
+                  </span>
+                )}
+                {series.key === "final" && inspected.tempOffset !== 0 && (
+                  <span className="font-normal text-slate-500">
+                    {" "}
+                    ({inspected.tempOffset < 0 ? "slowing down" : "catching up"}
+                    )
+                  </span>
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <p className="text-xs text-slate-400 leading-relaxed">
+        The treadmill speed eases towards its target instead of jumping to it,
+        which is why your avatar can lag behind the belt: it takes about{" "}
+        {getEasingTime().toFixed(1)} seconds to cover 95% of a speed change.
+        Holding Slow Down or Catch Up (the shaded areas) shifts the game speed
+        by {formatPercent(TEMP_OFFSET_AMOUNT)} while held, but slowing down
+        never drops it below {formatPercent(MIN_FINAL_SPEED)}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useMemo, useState } from "react";
+import { Bluetooth, ClipboardPaste } from "lucide-react";
+import {
+  parseBleScanDump,
+  recommendDrivers,
+  type DriverConfidence,
+} from "../../lib/vrti/bleScan";
+import {
+  getTreadmillPath,
+  getVRTIDrivers,
+  type Treadmill,
+} from "../../lib/vrti/treadmills";
+
+interface BleScanAnalyzerProps {
+  data: Treadmill[];
+}
+
+const MAX_LISTED_TREADMILLS = 8;
+
+const CONFIDENCE_STYLES: Record<
+  DriverConfidence,
+  { label: string; className: string }
+> = {
+  high: {
+    label: "Likely",
+    className: "bg-green-950/50 text-green-400 border-green-900",
+  },
+  medium: {
+    label: "Possible",
+    className: "bg-orange-950/50 text-orange-400 border-orange-900",
+  },
+  low: {
+    label: "Unlikely",
+    className: "bg-slate-800 text-slate-300 border-slate-700",
+  },
+};
+
+const EXAMPLE_DUMP = `Unknown Service
+UUID: 0000fe00-0000-1000-8000-00805f9b34fb
+  Unknown Characteristic
+  UUID: 0000fe01-0000-1000-8000-00805f9b34fb
+  Properties: NOTIFY`;
+
+export default function BleScanAnalyzer({ data }: BleScanAnalyzerProps) {
+  const [dump, setDump] = useState("");
+
+  const scan = useMemo(() => parseBleScanDump(dump), [dump]);
+  const recommendations = useMemo(() => recommendDrivers(scan), [scan]);
+
+  const getKnownTreadmills = (driver: string) =>
+    data.filter((item) => getVRTIDrivers(item).includes(driver));
+
+  return (
+    <div className="flex flex-col gap-4 not-content text-sm font-sans mt-6">
+      <div className="flex flex-col gap-2">
+        <label
+          htmlFor="ble-scan-dump"
+          className="text-xs font-semibold text-slate-400 uppercase tracking-wider"
+        >
+          Scanner output
+        </label>
+        <textarea
+          id="ble-scan-dump"
+          rows={8}
+          spellCheck={false}
+          placeholder={EXAMPLE_DUMP}
+          value={dump}
+          onChange={(event) => setDump(event.target.value)}
+          className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/50 outline-none transition-all placeholder:text-slate-600 hover:border-slate-600"
+        />
+        <p className="text-xs text-slate-500">
+          Everything is analyzed in your browser. Nothing you paste here is
+          uploaded.
+        </p>
+      </div>
+
+      {dump.trim() === "" ? (
+        <div className="flex items-center gap-2 p-4 border border-slate-800 rounded-lg bg-slate-900/30 text-slate-400">
+          <ClipboardPaste className="w-4 h-4 flex-shrink-0" />
+          Paste the services and characteristics of your treadmill to get a
+          driver recommendation.
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-slate-400">
+            <Bluetooth className="w-3.5 h-3.5" />
+            {scan.uuids.length > 0 ? (
+              <>
+                Found {scan.uuids.length} UUID
+                {scan.uuids.length === 1 ? "" : "s"}:
+                {scan.uuids.map((uuid) => (
+                  <code
+                    key={uuid}
+                    className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-300"
+                  >
+                    {uuid}
+                  </code>
+                ))}
+              </>
+            ) : (
+              "No UUIDs found in the pasted text."
+            )}
+          </div>
+
+          {recommendations.length > 0 ? (
+            recommendations.map((recommendation) => {
+              const style = CONFIDENCE_STYLES[recommendation.confidence];
+              const knownTreadmills = getKnownTreadmills(recommendation.driver);
+
+              return (
+                <div
+                  key={recommendation.driver}
+                  className="flex flex-col gap-2 p-4 border border-slate-800 rounded-lg bg-slate-900/30"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-slate-200">
+                      {recommendation.label}
+                    </span>
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded border whitespace-nowrap ${style.className}`}
+                    >
+                      {style.label}
+                    </span>
+                  </div>
+                  <ul className="list-disc pl-5 text-xs text-slate-400 marker:text-slate-600">
+                    {recommendation.evidence.map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                  {knownTreadmills.length > 0 && (
+                    <div className="text-xs text-slate-400">
+                      Known treadmills using this driver:{" "}
+                      {knownTreadmills
+                        .slice(0, MAX_LISTED_TREADMILLS)
+                        .map((item, idx) => (
+                          <span key={item.id}>
+                            {idx > 0 && ", "}
+                            <a
+                              href={getTreadmillPath(item.id)}
+                              className="text-blue-400 hover:text-blue-300 hover:underline transition-colors"
+                            >
+                              {item.make} {item.model}
+                            </a>
+                          </span>
+                        ))}
+                      {knownTreadmills.length > MAX_LISTED_TREADMILLS &&
+                        ` and ${knownTreadmills.length - MAX_LISTED_TREADMILLS} more`}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <div className="p-4 border border-slate-800 rounded-lg bg-slate-900/30 text-slate-400">
+              None of VRTI's drivers match this scan. Your treadmill may use a
+              protocol that isn't supported yet:{" "}
+              <a
+                href="/vrti/help/support"
+                className="text-blue-400 hover:text-blue-300 hover:underline"
+              >
+                get in touch
+              </a>{" "}
+              and include the scanner output.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useMemo, useState } from "react";
+import { ClipboardPaste, Usb } from "lucide-react";
+import Badge from "../Badge";
+import {
+  checkHardwareIds,
+  formatHardwareId,
+  type AdapterCheckStatus,
+} from "../../lib/vrti/bluetoothAdapterCheck";
+import type { BluetoothAdapter } from "../../lib/vrti/bluetoothAdapters";
+
+interface BluetoothAdapterCheckerProps {
+  adapters: BluetoothAdapter[];
+}
+
+const STATUS_VARIANTS: Record<
+  AdapterCheckStatus,
+  "success" | "default" | "caution"
+> = {
+  Recommended: "success",
+  Tested: "default",
+  Unknown: "caution",
+};
+
+const EXAMPLE_IDS = `USB\\VID_2357&PID_0604&REV_0200
+USB\\VID_2357&PID_0604`;
+
+export default function BluetoothAdapterChecker({
+  adapters,
+}: BluetoothAdapterCheckerProps) {
+  const [input, setInput] = useState("");
+
+  const results = useMemo(
+    () => checkHardwareIds(input, adapters),
+    [input, adapters],
+  );
+
+  return (
+    <div className="flex flex-col gap-4 not-content text-sm font-sans mt-6">
+      <div className="flex flex-col gap-2">
+        <label
+          htmlFor="bluetooth-hardware-ids"
+          className="text-xs font-semibold text-slate-400 uppercase tracking-wider"
+        >
+          Hardware IDs
+        </label>
+        <textarea
+          id="bluetooth-hardware-ids"
+          rows={5}
+          spellCheck={false}
+          placeholder={EXAMPLE_IDS}
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/50 outline-none transition-all placeholder:text-slate-600 hover:border-slate-600"
+        />
+        <p className="text-xs text-slate-500">
+          Everything is checked in your browser. Nothing you paste here is
+          uploaded.
+        </p>
+      </div>
+
+      {input.trim() === "" ? (
+        <div className="flex items-center gap-2 p-4 border border-slate-800 rounded-lg bg-slate-900/30 text-slate-400">
+          <ClipboardPaste className="w-4 h-4 flex-shrink-0" />
+          Paste the hardware IDs of your Bluetooth adapter to see whether it has
+          been tested with VRTI.
+        </div>
+      ) : results.length === 0 ? (
+        <div className="p-4 border border-slate-800 rounded-lg bg-slate-900/30 text-slate-400">
+          No USB hardware IDs found in the pasted text. They look like{" "}
+          <code className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-300">
+            USB\VID_2357&amp;PID_0604
+          </code>
+          .
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3" aria-live="polite">
+          {results.map((result) => (
+            <div
+              key={formatHardwareId(result.hardwareId)}
+              className="flex flex-col gap-2 p-4 border border-slate-800 rounded-lg bg-slate-900/30"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <Usb className="w-4 h-4 text-slate-400" />
+                <span className="font-semibold text-slate-200">
+                  {result.matches.length > 0
+                    ? result.matches.map((adapter) => adapter.model).join(" / ")
+                    : (result.vendor ?? "Unknown vendor")}
+                </span>
+                <code className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-300 text-xs">
+                  {formatHardwareId(result.hardwareId)}
+                </code>
+                <Badge
+                  text={result.status}
+                  variant={STATUS_VARIANTS[result.status]}
+                />
+              </div>
+              <ul className="list-disc pl-5 text-xs text-slate-400 marker:text-slate-600">
+                {result.advice.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,80 +1,205 @@
-import React from "react";
-import { Info } from "lucide-react";
+import React, { useState } from "react";
+import { Layers } from "lucide-react";
+import Badge from "../Badge";
+import DataTable, {
+  dataTableButtonClassName,
+  type DataTableColumn,
+  type DataTableFacet,
+  type DataTableRowContext,
+  type DataTableSortOption,
+} from "../DataTable";
+import HighlightedText from "../HighlightedText";
+import {
+  ADAPTER_STATUSES,
+  getAdapterSearchFields,
+  getAdapterStatusVariant,
+  hasAdapterNotes,
+  type BluetoothAdapter,
+} from "../../lib/vrti/bluetoothAdapters";
 
-interface Adapter {
-  model: string;
-  status: "Recommended" | "Tested";
-  chipset?: string;
+interface BluetoothAdapterTableProps {
+  adapters: BluetoothAdapter[];
 }
 
-const data: Adapter[] = [
-  { model: "TP-Link UB500 Plus", status: "Recommended" },
-  { model: "TP-Link UB500", status: "Tested" },
-  { model: "Intel AX200", status: "Tested" },
-  { model: "ASUS USB-BT500", status: "Tested" },
-  { model: "MediaTek MT7922", status: "Tested" },
+const SORT_OPTIONS: DataTableSortOption<BluetoothAdapter>[] = [
+  { key: "model", label: "Model", getValue: (item) => item.model },
+  { key: "chipset", label: "Chipset", getValue: (item) => item.chipset },
+  {
+    key: "bluetoothVersion",
+    label: "Bluetooth version",
+    getValue: (item) => item.bluetoothVersion,
+  },
+  {
+    key: "status",
+    label: "Status",
+    getValue: (item) => ADAPTER_STATUSES.indexOf(item.status),
+  },
 ];
 
-const Badge = ({
-  text,
-  variant = "default",
-}: {
-  text: string;
-  variant?: "default" | "success" | "tip" | "caution" | "danger";
-}) => {
-  const colors = {
-    default: "bg-slate-800 text-slate-300 border-slate-700",
-    success: "bg-green-950/50 text-green-400 border-green-900",
-    tip: "bg-purple-950/50 text-purple-400 border-purple-900",
-    caution: "bg-orange-950/50 text-orange-400 border-orange-900",
-    danger: "bg-red-950/50 text-red-400 border-red-900",
-  };
+const FACETS: DataTableFacet<BluetoothAdapter>[] = [
+  {
+    key: "chipset",
+    label: "Chipset",
+    getValues: (item) => [item.chipset],
+    match: "any",
+  },
+  {
+    key: "interface",
+    label: "Interface",
+    getValues: (item) => [item.interface],
+    match: "any",
+  },
+  {
+    key: "status",
+    label: "Status",
+    getValues: (item) => [item.status],
+    match: "any",
+  },
+];
 
-  return (
-    <span
-      className={`text-xs font-medium px-2 py-0.5 rounded border ${colors[variant] || colors.default} whitespace-nowrap`}
-    >
-      {text}
-    </span>
-  );
-};
+const columns: DataTableColumn<BluetoothAdapter>[] = [
+  {
+    key: "model",
+    header: "Model",
+    sortKey: "model",
+    headerClassName: "w-[30%]",
+    cellClassName: "p-4 font-medium text-slate-200",
+    render: (item, { highlights }) => (
+      <HighlightedText text={item.model} ranges={highlights.model} />
+    ),
+  },
+  {
+    key: "chipset",
+    header: "Chipset",
+    sortKey: "chipset",
+    headerClassName: "w-[25%]",
+    cellClassName: "p-4 text-slate-300",
+    render: (item, { highlights }) => (
+      <HighlightedText text={item.chipset} ranges={highlights.chipset} />
+    ),
+  },
+  {
+    key: "interface",
+    header: "Interface",
+    headerClassName: "w-[15%]",
+    cellClassName: "p-4 text-slate-400",
+    render: (item) => item.interface,
+  },
+  {
+    key: "bluetoothVersion",
+    header: "Bluetooth",
+    sortKey: "bluetoothVersion",
+    headerClassName: "w-[15%]",
+    cellClassName: "p-4 text-slate-400 tabular-nums",
+    render: (item) => item.bluetoothVersion,
+  },
+  {
+    key: "status",
+    header: "Status",
+    sortKey: "status",
+    headerClassName: "w-[15%]",
+    render: (item) => (
+      <Badge
+        text={item.status}
+        variant={getAdapterStatusVariant(item.status)}
+      />
+    ),
+  },
+];
 
-export default function BluetoothAdapterTable() {
-  return (
-    <div className="flex flex-col gap-4 not-content text-sm font-sans mt-4">
-      {/* Table */}
-      <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/30">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left border-collapse min-w-[400px]">
-            <thead>
-              <tr className="bg-slate-900/80 border-b border-slate-800 text-slate-400 text-xs uppercase tracking-wider">
-                <th className="p-4 font-semibold w-2/3">Model</th>
-                <th className="p-4 font-semibold w-1/3">Status</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-800/50">
-              {data.map((item, index) => (
-                <tr
-                  key={index}
-                  className="hover:bg-slate-800/40 transition-colors group"
-                >
-                  <td className="p-4 font-medium text-slate-200">
-                    {item.model}
-                  </td>
-                  <td className="p-4">
-                    <Badge
-                      text={item.status}
-                      variant={
-                        item.status === "Recommended" ? "success" : "default"
-                      }
-                    />
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+const getRowId = (item: BluetoothAdapter) => item.id;
+
+const getRowLabel = (item: BluetoothAdapter) => item.model;
+
+const getChipset = (item: BluetoothAdapter) => item.chipset;
+
+const renderDetails = (
+  item: BluetoothAdapter,
+  { highlights }: DataTableRowContext,
+) => (
+  <>
+    {item.knownIssues.length > 0 && (
+      <div>
+        <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
+          Known Issues
+        </h4>
+        <ul className="list-disc pl-5 space-y-1 text-slate-300 text-sm marker:text-slate-500">
+          {item.knownIssues.map((issue, idx) => (
+            <li key={idx}>
+              <HighlightedText
+                text={issue}
+                ranges={highlights[`issue:${idx}`]}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {item.driverNotes.length > 0 && (
+      <div>
+        <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
+          Drivers
+        </h4>
+        <ul className="list-disc pl-5 space-y-1 text-slate-300 text-sm marker:text-slate-500">
+          {item.driverNotes.map((note, idx) => (
+            <li key={idx}>
+              <HighlightedText
+                text={note}
+                ranges={highlights[`driver:${idx}`]}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {item.testedVrtiVersions.length > 0 && (
+      <div>
+        <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
+          Tested With
+        </h4>
+        <div className="flex flex-wrap gap-1.5">
+          {item.testedVrtiVersions.map((version) => (
+            <Badge key={version} text={`VRTI v${version}`} />
+          ))}
         </div>
       </div>
-    </div>
+    )}
+  </>
+);
+
+export default function BluetoothAdapterTable({
+  adapters,
+}: BluetoothAdapterTableProps) {
+  const [groupByChipset, setGroupByChipset] = useState(true);
+
+  return (
+    <DataTable
+      data={adapters}
+      columns={columns}
+      getRowId={getRowId}
+      getRowLabel={getRowLabel}
+      itemName={["adapter", "adapters"]}
+      getSearchFields={getAdapterSearchFields}
+      searchPlaceholder="Search model, chipset, notes..."
+      facets={FACETS}
+      sortOptions={SORT_OPTIONS}
+      toolbar={
+        <button
+          onClick={() => setGroupByChipset(!groupByChipset)}
+          aria-pressed={groupByChipset}
+          className={dataTableButtonClassName(groupByChipset)}
+        >
+          <Layers className="w-3.5 h-3.5" />
+          Group by chipset
+        </button>
+      }
+      groupBy={groupByChipset ? getChipset : undefined}
+      hasDetails={hasAdapterNotes}
+      renderDetails={renderDetails}
+      tableClassName="min-w-[640px]"
+      className="mt-4"
+    />
   );
 }
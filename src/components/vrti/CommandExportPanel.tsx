@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Copy } from "lucide-react";
+import {
+  MCP_SERVER_URL,
+  formatMcpScript,
+  formatOscScript,
+  formatWebSocketScript,
+  type ExportedSettings,
+} from "../../lib/vrti/commandExport";
+import { getVrtiWebSocketUrl } from "../../lib/vrti/liveMirror";
+
+interface CommandExportPanelProps {
+  settings: ExportedSettings;
+  // Max speed configured in VRTI, in the calculator's unit. Only needed for
+  // OSC, and prefilled from the selected treadmill unless VRTI reported it.
+  speedLimit: number | null;
+  defaultSpeedLimit: number;
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 10,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: 0.5,
+  color: "rgba(255,255,255,0.5)",
+};
+
+function Snippet({
+  title,
+  description,
+  content,
+}: {
+  title: string;
+  description: React.ReactNode;
+  content: string;
+}) {
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopyState("copied");
+      window.setTimeout(() => setCopyState("idle"), 2000);
+    } catch {
+      setCopyState("failed");
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 8,
+        }}
+      >
+        <span style={labelStyle}>{title}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 4,
+            padding: "2px 8px",
+            borderRadius: 4,
+            border: "none",
+            fontSize: 11,
+            cursor: "pointer",
+            background: "rgba(255,255,255,0.1)",
+            color: "rgba(255,255,255,0.7)",
+          }}
+        >
+          <Copy size={12} />
+          {copyState === "copied"
+            ? "Copied"
+            : copyState === "failed"
+              ? "Copy failed"
+              : "Copy"}
+        </button>
+      </div>
+      <span>{description}</span>
+      <pre
+        style={{
+          margin: 0,
+          padding: 8,
+          borderRadius: 6,
+          background: "rgba(0,0,0,0.35)",
+          border: "1px solid rgba(255,255,255,0.08)",
+          color: "rgba(255,255,255,0.85)",
+          fontFamily: "ui-monospace, monospace",
+          fontSize: 11,
+          whiteSpace: "pre-wrap",
+          wordBreak: "break-all",
+        }}
+      >
+        {content}
+      </pre>
+    </div>
+  );
+}
+
+export default function CommandExportPanel({
+  settings,
+  speedLimit,
+  defaultSpeedLimit,
+}: CommandExportPanelProps) {
+  const [speedLimitInput, setSpeedLimitInput] = useState(
+    String(defaultSpeedLimit),
+  );
+
+  const enteredSpeedLimit = Number.parseFloat(speedLimitInput);
+  const oscSpeedLimit =
+    speedLimit ??
+    (Number.isFinite(enteredSpeedLimit) && enteredSpeedLimit > 0
+      ? enteredSpeedLimit
+      : defaultSpeedLimit);
+
+  return (
+    <details
+      style={{
+        marginTop: 8,
+        padding: 10,
+        borderRadius: 8,
+        border: "1px solid rgba(255,255,255,0.1)",
+        fontSize: 11,
+        color: "rgba(255,255,255,0.6)",
+        lineHeight: 1.5,
+      }}
+    >
+      <summary style={{ ...labelStyle, cursor: "pointer" }}>
+        Apply these settings in VRTI
+      </summary>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+          marginTop: 10,
+        }}
+      >
+        <span>
+          Sets the treadmill's target speed, the auto walk multiplier and the
+          override preset to what's shown above.
+        </span>
+        <Snippet
+          title="WebSocket API"
+          description={
+            <>
+              Send each command as a separate message to {getVrtiWebSocketUrl()}
+              . Speeds are in km/h.
+            </>
+          }
+          content={formatWebSocketScript(settings)}
+        />
+        <Snippet
+          title="OSC"
+          description={
+            <>
+              Uses <code>oscsend</code> from liblo. The treadmill speed is sent
+              relative to the max speed configured in VRTI:{" "}
+              {speedLimit !== null ? (
+                `${oscSpeedLimit.toFixed(1)} ${settings.unit}`
+              ) : (
+                <label>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    value={speedLimitInput}
+                    onChange={(e) => setSpeedLimitInput(e.target.value)}
+                    aria-label="Max speed configured in VRTI"
+                    style={{
+                      width: 56,
+                      padding: "1px 4px",
+                      borderRadius: 4,
+                      border: "1px solid rgba(255,255,255,0.15)",
+                      background: "rgba(255,255,255,0.08)",
+                      color: "#fff",
+                      fontSize: 11,
+                    }}
+                  />{" "}
+                  {settings.unit}
+                </label>
+              )}
+              .
+            </>
+          }
+          content={formatOscScript(settings, oscSpeedLimit)}
+        />
+        <Snippet
+          title="MCP"
+          description={
+            <>
+              The tools of VRTI's MCP server at {MCP_SERVER_URL} to call, and
+              the value for each. Their argument names aren't documented, so
+              look them up in the input schemas your MCP client gets from{" "}
+              <code>tools/list</code>, or ask your AI assistant to apply them.
+            </>
+          }
+          content={formatMcpScript(settings)}
+        />
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,430 @@
+import { useState } from "react";
+import {
+  DEFAULT_GAME_RESPONSES,
+  INPUT_MODES,
+  INPUT_MODE_LABELS,
+  OSC_VERTICAL_ADDRESS,
+  RESPONSE_CURVES,
+  XINPUT_AXIS_MAX,
+  getDeadzoneSpeed,
+  getPerceivedSpeed,
+  toOscValue,
+  toThumbstickY,
+  type GameResponse,
+  type InputMode,
+} from "../../lib/vrti/inputMode";
+import type { SpeedUnit } from "../../lib/vrti/speedRange";
+
+interface InputModePanelProps {
+  finalSpeed: number;
+  multiplier: number;
+  unit: SpeedUnit;
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+  // Set while mirroring VRTI, which decides the mode
+  readOnly?: boolean;
+}
+
+const CURVE_SIZE = 100;
+const CURVE_POINTS = 50;
+const STICK_SIZE = 100;
+const STICK_RADIUS = 44;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 10,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: 0.5,
+  color: "rgba(255,255,255,0.5)",
+};
+
+const codeStyle: React.CSSProperties = {
+  padding: "1px 4px",
+  borderRadius: 3,
+  background: "rgba(255,255,255,0.08)",
+  fontFamily: "ui-monospace, monospace",
+  fontSize: 11,
+  color: "#fff",
+};
+
+function Thumbstick({ axis, deadzone }: { axis: number; deadzone: number }) {
+  const center = STICK_SIZE / 2;
+
+  return (
+    <svg
+      width={STICK_SIZE}
+      height={STICK_SIZE}
+      viewBox={`0 0 ${STICK_SIZE} ${STICK_SIZE}`}
+      role="img"
+      aria-label={`Thumbstick pushed ${formatPercent(axis)} forward`}
+    >
+      <circle
+        cx={center}
+        cy={center}
+        r={STICK_RADIUS}
+        fill="rgba(255,255,255,0.05)"
+        stroke="rgba(255,255,255,0.25)"
+      />
+      {deadzone > 0 && (
+        <circle
+          cx={center}
+          cy={center}
+          r={deadzone * STICK_RADIUS}
+          fill="rgba(245, 158, 11, 0.15)"
+          stroke="rgba(245, 158, 11, 0.6)"
+          strokeDasharray="3 3"
+        />
+      )}
+      <line
+        x1={center}
+        y1={center}
+        x2={center}
+        y2={center - axis * STICK_RADIUS}
+        stroke="rgba(255,255,255,0.4)"
+        strokeWidth={2}
+      />
+      <circle
+        cx={center}
+        cy={center - axis * STICK_RADIUS}
+        r={7}
+        fill="rgb(34, 197, 94)"
+      />
+    </svg>
+  );
+}
+
+function OscAxis({ axis }: { axis: number }) {
+  const height = STICK_SIZE - 8;
+  // The axis runs from -1 (bottom) to 1 (top), with 0 in the middle
+  const toY = (value: number) => 4 + ((1 - value) / 2) * height;
+
+  return (
+    <svg
+      width={48}
+      height={STICK_SIZE}
+      viewBox={`0 0 48 ${STICK_SIZE}`}
+      role="img"
+      aria-label={`Vertical axis at ${axis.toFixed(2)}`}
+    >
+      <rect
+        x={18}
+        y={4}
+        width={12}
+        height={height}
+        rx={3}
+        fill="rgba(255,255,255,0.08)"
+      />
+      <rect
+        x={18}
+        y={toY(axis)}
+        width={12}
+        height={toY(0) - toY(axis)}
+        fill="rgb(34, 197, 94)"
+      />
+      <line
+        x1={12}
+        x2={36}
+        y1={toY(0)}
+        y2={toY(0)}
+        stroke="rgba(255,255,255,0.5)"
+      />
+      {[1, 0, -1].map((value) => (
+        <text
+          key={value}
+          x={10}
+          y={toY(value) + 3}
+          textAnchor="end"
+          fontSize={8}
+          fill="rgba(255,255,255,0.4)"
+        >
+          {value}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+function ResponseCurve({
+  axis,
+  response,
+}: {
+  axis: number;
+  response: GameResponse;
+}) {
+  const toX = (value: number) => value * CURVE_SIZE;
+  const toY = (value: number) => (1 - value) * CURVE_SIZE;
+  const points = Array.from({ length: CURVE_POINTS + 1 }, (_, idx) => {
+    const value = idx / CURVE_POINTS;
+    return `${toX(value).toFixed(1)},${toY(getPerceivedSpeed(value, response)).toFixed(1)}`;
+  });
+
+  return (
+    <svg
+      width={CURVE_SIZE}
+      height={CURVE_SIZE}
+      viewBox={`-2 -2 ${CURVE_SIZE + 4} ${CURVE_SIZE + 4}`}
+      role="img"
+      aria-label="Walk speed in game for each input value"
+      style={{ overflow: "visible" }}
+    >
+      <rect
+        width={CURVE_SIZE}
+        height={CURVE_SIZE}
+        fill="rgba(255,255,255,0.03)"
+        stroke="rgba(255,255,255,0.15)"
+      />
+      {response.deadzone > 0 && (
+        <rect
+          width={toX(response.deadzone)}
+          height={CURVE_SIZE}
+          fill="rgba(245, 158, 11, 0.15)"
+        />
+      )}
+      <line
+        x1={0}
+        y1={CURVE_SIZE}
+        x2={CURVE_SIZE}
+        y2={0}
+        stroke="rgba(255,255,255,0.2)"
+        strokeDasharray="3 3"
+      />
+      <polyline
+        points={points.join(" ")}
+        fill="none"
+        stroke="rgb(34, 197, 94)"
+        strokeWidth={2}
+      />
+      <circle
+        cx={toX(axis)}
+        cy={toY(getPerceivedSpeed(axis, response))}
+        r={4}
+        fill="#fff"
+      />
+    </svg>
+  );
+}
+
+export default function InputModePanel({
+  finalSpeed,
+  multiplier,
+  unit,
+  mode,
+  onModeChange,
+  readOnly = false,
+}: InputModePanelProps) {
+  const [xinputResponse, setXinputResponse] = useState(
+    DEFAULT_GAME_RESPONSES.XInput,
+  );
+
+  // Only a controller goes through the game's deadzone and curve
+  const response =
+    mode === "XInput" ? xinputResponse : DEFAULT_GAME_RESPONSES.VRChatOSC;
+  const axis = toOscValue(finalSpeed);
+  const perceivedSpeed = getPerceivedSpeed(axis, response);
+  const deadzoneSpeed = getDeadzoneSpeed(response, multiplier, unit);
+
+  const updateResponse = (update: Partial<GameResponse>) =>
+    setXinputResponse((prev) => ({ ...prev, ...update }));
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: 10,
+        marginTop: 8,
+        padding: 10,
+        borderRadius: 8,
+        background: "rgba(34, 197, 94, 0.05)",
+        border: "1px solid rgba(255,255,255,0.1)",
+        fontSize: 11,
+        color: "rgba(255,255,255,0.6)",
+        lineHeight: 1.5,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+        }}
+      >
+        <span style={labelStyle}>Input Mode</span>
+        <div role="group" aria-label="Input mode" style={{ display: "flex" }}>
+          {INPUT_MODES.map((option, idx) => (
+            <button
+              key={option}
+              onClick={() => onModeChange(option)}
+              disabled={readOnly}
+              aria-pressed={mode === option}
+              style={{
+                padding: "4px 10px",
+                border: "none",
+                borderRadius:
+                  idx === 0
+                    ? "4px 0 0 4px"
+                    : idx === INPUT_MODES.length - 1
+                      ? "0 4px 4px 0"
+                      : 0,
+                fontSize: 11,
+                fontWeight: 600,
+                cursor: readOnly ? "not-allowed" : "pointer",
+                background:
+                  mode === option
+                    ? "rgb(34, 197, 94)"
+                    : "rgba(255,255,255,0.15)",
+                color: mode === option ? "#000" : "rgba(255,255,255,0.6)",
+              }}
+            >
+              {INPUT_MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 16,
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: 4,
+          }}
+        >
+          <span style={labelStyle}>Sent to the game</span>
+          {mode === "XInput" ? (
+            <Thumbstick axis={axis} deadzone={response.deadzone} />
+          ) : (
+            <OscAxis axis={axis} />
+          )}
+          {mode === "XInput" ? (
+            <span>
+              <code style={codeStyle}>ThumbLY</code> {toThumbstickY(finalSpeed)}{" "}
+              / {XINPUT_AXIS_MAX}
+            </span>
+          ) : (
+            <span>
+              <code style={codeStyle}>{OSC_VERTICAL_ADDRESS}</code>{" "}
+              {axis.toFixed(3)}
+            </span>
+          )}
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: 4,
+          }}
+        >
+          <span style={labelStyle}>Game response</span>
+          <ResponseCurve axis={axis} response={response} />
+          <span>
+            Moves at{" "}
+            <strong style={{ color: "#fff" }}>
+              {formatPercent(perceivedSpeed)}
+            </strong>{" "}
+            speed
+          </span>
+        </div>
+
+        {mode === "XInput" && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: 6,
+              minWidth: 180,
+              flex: 1,
+            }}
+          >
+            <label style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+              <span
+                style={{ display: "flex", justifyContent: "space-between" }}
+              >
+                Game deadzone
+                <span
+                  style={{ color: "#fff", fontVariantNumeric: "tabular-nums" }}
+                >
+                  {formatPercent(response.deadzone)}
+                </span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={0.5}
+                step={0.01}
+                value={response.deadzone}
+                onChange={(e) =>
+                  updateResponse({ deadzone: parseFloat(e.target.value) })
+                }
+                style={{ width: "100%", accentColor: "rgb(245, 158, 11)" }}
+              />
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input
+                type="checkbox"
+                checked={response.rescale}
+                onChange={(e) => updateResponse({ rescale: e.target.checked })}
+              />
+              Rescaled past the deadzone
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              Curve
+              <select
+                value={response.exponent}
+                onChange={(e) =>
+                  updateResponse({ exponent: parseFloat(e.target.value) })
+                }
+                style={{
+                  padding: "2px 4px",
+                  borderRadius: 4,
+                  border: "1px solid rgba(255,255,255,0.15)",
+                  background: "rgba(255,255,255,0.08)",
+                  color: "#fff",
+                  fontSize: 11,
+                }}
+              >
+                {RESPONSE_CURVES.map((curve) => (
+                  <option
+                    key={curve.exponent}
+                    value={curve.exponent}
+                    style={{ background: "#1e293b" }}
+                  >
+                    {curve.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span>
+              {response.deadzone === 0
+                ? "Every treadmill speed above 0 moves you in game."
+                : deadzoneSpeed !== null
+                  ? `Below ${deadzoneSpeed.toFixed(1)} ${unit} on the treadmill, you won't move in game at ${multiplier.toFixed(2)}x.`
+                  : `At ${multiplier.toFixed(2)}x, you never get past the deadzone.`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <span>
+        {mode === "XInput"
+          ? "In XInput mode, VRTI pushes the left thumbstick of a virtual Xbox controller forward. The game treats it like a real controller: most games ignore small deflections (the deadzone) and many shape the rest with a curve, so slow walking can leave you standing still. These settings belong to the game, so if it doesn't let you change them, raise the multiplier in VRTI to get past them."
+          : "In VRChat OSC mode, VRTI sends the walk speed as the value of VRChat's vertical movement axis. No controller is involved, so controller deadzones and curves don't apply and VRChat receives the walk speed above as is."}{" "}
+        The multiplier scales the value VRTI sends in both modes, but a deadzone
+        or curve means the same multiplier can feel very different in each.
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { chromium, type Browser, type Page } from "playwright";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  inject,
+  it,
+} from "vitest";
+import type { ClaimScenario } from "../../lib/vrti/steamKeyClaim";
+
+const LICENSE_KEY = "38b1460a-5104-4067-a91d-77b872934d51";
+
+let browser: Browser;
+let page: Page;
+
+beforeAll(async () => {
+  browser = await chromium.launch();
+});
+
+afterAll(async () => {
+  await browser?.close();
+});
+
+beforeEach(async () => {
+  page = await browser.newPage();
+  await page.goto(`${inject("baseUrl")}/vrti/claim-steam-key/`);
+  // Astro drops `ssr` from the island once the form is hydrated
+  await page.locator("astro-island:not([ssr]) .steam-claim-root").waitFor();
+});
+
+afterEach(async () => {
+  await page?.close();
+});
+
+async function claim(scenario: ClaimScenario) {
+  await page.getByLabel("License key", { exact: true }).fill(LICENSE_KEY);
+  await page.getByLabel("Purchase email address").fill("name@example.com");
+  await page.getByLabel("Claim API (development only)").selectOption(scenario);
+  await page.getByRole("button", { name: "Get Steam key" }).click();
+}
+
+// Every branch of `getErrorMessage`, through the local stand-in
+describe("claim errors", () => {
+  it.each<{ scenario: ClaimScenario; message: string }>([
+    { scenario: "badRequest", message: "licenseKey: Invalid uuid" },
+    { scenario: "badRequestWithoutMessage", message: "Invalid request" },
+    {
+      scenario: "invalidLicenseKey",
+      message: "That VRTI license key is invalid or inactive.",
+    },
+    {
+      scenario: "purchaseMismatch",
+      message:
+        "The purchase email address or order ID does not match this license key.",
+    },
+    {
+      scenario: "outOfKeys",
+      message:
+        "No Steam keys are available right now. Please try again later or contact support.",
+    },
+    {
+      scenario: "serviceNotInitialized",
+      message:
+        "The Steam key claim service is not fully set up yet. Please try again later.",
+    },
+    {
+      scenario: "validationUnavailable",
+      message:
+        "The license key could not be validated right now. Double-check it and try again. If the key is correct, please try again in a few minutes.",
+    },
+    {
+      scenario: "serviceUnavailable",
+      message:
+        "The claim service is temporarily unavailable. Please try again in a few minutes.",
+    },
+    {
+      scenario: "serverError",
+      message:
+        "The claim failed due to a server error. Please try again later.",
+    },
+    { scenario: "rateLimited", message: "Too many claim attempts" },
+    {
+      scenario: "emptyResponse",
+      message: "The Steam key could not be claimed.",
+    },
+  ])("shows the message for $scenario", async ({ scenario, message }) => {
+    await claim(scenario);
+
+    const alert = page.getByRole("alert");
+    // 503s are retried three times before they're shown
+    await alert.waitFor({ timeout: 30_000 });
+    expect(await alert.locator("p").textContent()).toBe(message);
+  });
+});
@@ -1,24 +1,26 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import {
+  CLAIM_ENDPOINT,
+  CLAIM_SCENARIOS,
+  CLAIM_SCENARIO_LABELS,
+  MAX_CLAIM_ATTEMPTS,
+  claimSteamKey,
+  getMockClaimEndpoint,
+  isClaimScenario,
+  type ClaimErrorResponse,
+  type ClaimResult,
+  type ClaimRetry,
+  type ClaimScenario,
+  type ClaimSuccessResponse,
+} from "../../lib/vrti/steamKeyClaim";
 
 type ProofMethod = "email" | "orderId";
 
-type ClaimSuccessResponse = {
-  steamKey: string;
-  claimedAt: number;
-  alreadyClaimed: boolean;
-};
-
-type ClaimErrorResponse = {
-  error?: string;
-  message?: string;
-};
-
 type ClaimErrorContext = {
   status: number;
   payload: ClaimErrorResponse | null;
 };
 
-const CLAIM_ENDPOINT = "https://api.raphii.co/vrti/steam/claim";
 const LICENSE_KEY_PATTERN =
   /^[a-f0-9]{8}(?:-[a-f0-9]{4}){3}-[a-f0-9]{12}$/i;
 
@@ -93,6 +95,29 @@ function getErrorMessage({ status, payload }: ClaimErrorContext, fallback: strin
   return message || error || fallback;
 }
 
+function getClaimFailureMessage(
+  result: Exclude<ClaimResult, { type: "success" | "cancelled" }>,
+) {
+  switch (result.type) {
+    case "error":
+      return getErrorMessage(result, "The Steam key could not be claimed.");
+    case "unparseable":
+      return result.status >= 500
+        ? `The claim service is having problems (HTTP ${result.status}). Please try again in a few minutes.`
+        : `The claim service sent a response that could not be read (HTTP ${result.status}). Please try again later or contact support.`;
+    case "timeout":
+      return "The Steam key claim service took too long to respond. Please try again.";
+    case "network":
+      return "The Steam key claim service could not be reached. Please try again.";
+  }
+}
+
+function getRetryReason({ reason }: ClaimRetry) {
+  return reason.type === "timeout" || reason.type === "network"
+    ? "The claim service could not be reached."
+    : "The claim service is temporarily unavailable.";
+}
+
 export default function SteamKeyClaimForm() {
   const [licenseKey, setLicenseKey] = useState("");
   const [proofMethod, setProofMethod] = useState<ProofMethod>("email");
@@ -104,7 +129,37 @@ export default function SteamKeyClaimForm() {
   const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
     "idle",
   );
+  // In development, claims go to the local stand-in unless the real API is
+  // picked (`null`)
+  const [devScenario, setDevScenario] = useState<ClaimScenario | null>(
+    "success",
+  );
+  const [retry, setRetry] = useState<ClaimRetry | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const claimControllerRef = useRef<AbortController | null>(null);
 
+  // Ticks the countdown while waiting to retry
+  useEffect(() => {
+    if (!retry) {
+      return;
+    }
+
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(interval);
+  }, [retry]);
+
+  // Stops retrying when the form goes away
+  useEffect(() => () => claimControllerRef.current?.abort(), []);
+
+  const retrySeconds = retry
+    ? Math.max(0, Math.ceil((retry.retryAt - now) / 1000))
+    : 0;
+
+  const claimEndpoint =
+    import.meta.env.DEV && devScenario
+      ? getMockClaimEndpoint(devScenario)
+      : CLAIM_ENDPOINT;
   const activeProofValue = proofMethod === "email" ? email : orderId;
 
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
@@ -145,46 +200,45 @@ export default function SteamKeyClaimForm() {
     setResult(null);
     setCopyState("idle");
 
-    try {
-      const response = await fetch(CLAIM_ENDPOINT, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
+    const controller = new AbortController();
+    claimControllerRef.current = controller;
+    const retryReasons: ClaimResult[] = [];
+
+    const claimResult = await claimSteamKey(
+      {
+        licenseKey: normalizedLicenseKey,
+        ...(proofMethod === "email"
+          ? { email: normalizedEmail }
+          : { orderId: normalizedOrderId }),
+      },
+      {
+        endpoint: claimEndpoint,
+        signal: controller.signal,
+        onRetry: (nextRetry) => {
+          retryReasons.push(nextRetry.reason);
+          setRetry(nextRetry);
         },
-        body: JSON.stringify({
-          licenseKey: normalizedLicenseKey,
-          ...(proofMethod === "email"
-            ? { email: normalizedEmail }
-            : { orderId: normalizedOrderId }),
-        }),
-      });
-
-      const responseText = await response.text();
-      const payload = responseText
-        ? (JSON.parse(responseText) as ClaimSuccessResponse | ClaimErrorResponse)
-        : null;
-
-      if (!response.ok) {
-        setErrorMessage(
-          getErrorMessage(
-            {
-              status: response.status,
-              payload: payload as ClaimErrorResponse | null,
-            },
-            "The Steam key could not be claimed.",
-          ),
-        );
-        return;
-      }
-
-      setResult(payload as ClaimSuccessResponse);
-    } catch {
-      setErrorMessage(
-        "The Steam key claim service could not be reached. Please try again.",
-      );
-    } finally {
-      setSubmitting(false);
+      },
+    );
+
+    claimControllerRef.current = null;
+    setRetry(null);
+    setSubmitting(false);
+
+    // Retries stopped by the user still explain why the claim failed
+    const failure =
+      claimResult.type === "cancelled"
+        ? retryReasons[retryReasons.length - 1]
+        : claimResult;
+
+    if (claimResult.type === "success") {
+      setResult(claimResult.response);
+    } else if (
+      failure &&
+      failure.type !== "success" &&
+      failure.type !== "cancelled"
+    ) {
+      setErrorMessage(getClaimFailureMessage(failure));
     }
   }
 
@@ -319,7 +373,8 @@ export default function SteamKeyClaimForm() {
         }
 
         .steam-claim-submit,
-        .steam-claim-copy {
+        .steam-claim-copy,
+        .steam-claim-cancel {
           border: 1px solid var(--sl-color-gray-5);
           border-radius: 0.5rem;
           font: inherit;
@@ -338,7 +393,8 @@ export default function SteamKeyClaimForm() {
         }
 
         .steam-claim-submit:hover,
-        .steam-claim-copy:hover {
+        .steam-claim-copy:hover,
+        .steam-claim-cancel:hover {
           border-color: rgba(255, 255, 255, 0.28);
         }
 
@@ -409,6 +465,13 @@ export default function SteamKeyClaimForm() {
           white-space: nowrap;
         }
 
+        .steam-claim-cancel {
+          min-height: 2.5rem;
+          background: rgba(255, 255, 255, 0.1);
+          color: var(--sl-color-white);
+          padding: 0.6rem 1rem;
+        }
+
         .steam-claim-copy[data-copy-state="copied"] {
           background: rgba(74, 222, 128, 0.22);
           color: rgb(220, 252, 231);
@@ -551,9 +614,59 @@ export default function SteamKeyClaimForm() {
               {submitting ? "Checking purchase..." : "Get Steam key"}
             </button>
           </div>
+
+          {import.meta.env.DEV && (
+            <div className="steam-claim-field">
+              <label htmlFor="steam-claim-dev-scenario">
+                Claim API (development only)
+              </label>
+              <select
+                id="steam-claim-dev-scenario"
+                className="steam-claim-input"
+                value={devScenario ?? ""}
+                disabled={submitting}
+                onChange={(event) =>
+                  setDevScenario(
+                    isClaimScenario(event.target.value)
+                      ? event.target.value
+                      : null,
+                  )
+                }
+              >
+                {CLAIM_SCENARIOS.map((scenario) => (
+                  <option key={scenario} value={scenario}>
+                    Local: {CLAIM_SCENARIO_LABELS[scenario]}
+                  </option>
+                ))}
+                <option value="">Production API</option>
+              </select>
+            </div>
+          )}
         </form>
       </section>
 
+      {retry && (
+        <section className="steam-claim-panel" role="status" aria-live="polite">
+          <h3>Trying again</h3>
+          <p className="steam-claim-meta">
+            {getRetryReason(retry)}{" "}
+            {retrySeconds > 0
+              ? `Retrying in ${retrySeconds}s`
+              : "Retrying now"}{" "}
+            (attempt {retry.attempt} of {MAX_CLAIM_ATTEMPTS}).
+          </p>
+          <div className="steam-claim-actions">
+            <button
+              className="steam-claim-cancel"
+              type="button"
+              onClick={() => claimControllerRef.current?.abort()}
+            >
+              Stop retrying
+            </button>
+          </div>
+        </section>
+      )}
+
       {errorMessage && (
         <section
           className="steam-claim-panel"
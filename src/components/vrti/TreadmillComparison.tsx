@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Check, Link2, Minus, X } from "lucide-react";
+import {
+  FEATURE_LABELS,
+  getDriverPresentations,
+  getTreadmillNotes,
+  getTreadmillPath,
+  getVRTIDrivers,
+  getWeightDisplay,
+  hasExperimentalOnlySupport,
+  type Treadmill,
+  type WeightUnit,
+} from "../../lib/vrti/treadmills";
+import { getListParam, replaceSearchParams } from "../../lib/urlState";
+import { WEIGHT_UNITS } from "../../lib/units";
+import { useUnitSystem } from "../useUnitSystem";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+const COMPARE_PARAM = "compare";
+const COMPARE_STORAGE_KEY = "vrti-treadmill-compare";
+
+interface TreadmillComparisonProps {
+  items: Treadmill[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+interface ComparisonRow {
+  label: string;
+  getValue: (item: Treadmill) => string;
+  render?: (item: Treadmill) => React.ReactNode;
+}
+
+const readPinnedIds = () => {
+  const fromUrl = getListParam(
+    new URLSearchParams(window.location.search),
+    COMPARE_PARAM,
+  );
+
+  if (fromUrl.length > 0) {
+    return fromUrl;
+  }
+
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(COMPARE_STORAGE_KEY) ?? "[]",
+    );
+    return Array.isArray(stored)
+      ? stored.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writePinnedIds = (ids: string[]) => {
+  try {
+    window.localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // Storage can be unavailable (e.g. private browsing); the URL still works
+  }
+
+  replaceSearchParams({ [COMPARE_PARAM]: ids.join(",") });
+};
+
+/**
+ * Pinned treadmill ids, restored from the `compare` URL parameter or local
+ * storage after hydration and written back to both on every change.
+ */
+export function usePinnedTreadmills(data: Treadmill[]) {
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    const knownIds = new Set(data.map((item) => item.id));
+    setPinnedIds(
+      readPinnedIds()
+        .filter((id) => knownIds.has(id))
+        .slice(0, MAX_COMPARE),
+    );
+    setRestored(true);
+  }, [data]);
+
+  useEffect(() => {
+    if (restored) {
+      writePinnedIds(pinnedIds);
+    }
+  }, [pinnedIds, restored]);
+
+  const togglePinned = useCallback((id: string) => {
+    setPinnedIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((current) => current !== id)
+        : prev.length >= MAX_COMPARE
+          ? prev
+          : [...prev, id],
+    );
+  }, []);
+
+  const clearPinned = useCallback(() => setPinnedIds([]), []);
+
+  return { pinnedIds, togglePinned, clearPinned };
+}
+
+const FEATURE_ROWS: ComparisonRow[] = Array.from(
+  new Set(Object.values(FEATURE_LABELS)),
+).map((label) => {
+  const keys = Object.keys(FEATURE_LABELS).filter(
+    (key) => FEATURE_LABELS[key] === label,
+  );
+  const hasFeature = (item: Treadmill) =>
+    keys.some((key) => item.features.includes(key));
+
+  return {
+    label,
+    getValue: (item) => String(hasFeature(item)),
+    render: (item) =>
+      hasFeature(item) ? (
+        <Check className="w-4 h-4 text-green-400" aria-label="Yes" />
+      ) : (
+        <Minus className="w-4 h-4 text-slate-600" aria-label="No" />
+      ),
+  };
+});
+
+// Matches the VRTI columns of the compatibility table
+const getSupportLabel = (item: Treadmill) => {
+  if (!item.vrtiData) {
+    return "Unknown";
+  }
+  if (getVRTIDrivers(item).length === 0) {
+    return "Not supported";
+  }
+  return hasExperimentalOnlySupport(item) ? "Experimental only" : "Stable";
+};
+
+const getComparisonRows = (weightUnit: WeightUnit): ComparisonRow[] => [
+  {
+    label: "VRTI Driver(s)",
+    getValue: (item) =>
+      getDriverPresentations(item)
+        .map((driver) => driver.label)
+        .join(", ") || "None",
+  },
+  {
+    label: "Support",
+    getValue: getSupportLabel,
+  },
+  {
+    label: "Max user weight",
+    getValue: (item) =>
+      item.weight ? getWeightDisplay(item.weight, weightUnit) : "Unknown",
+  },
+  ...FEATURE_ROWS,
+  {
+    label: "Notes",
+    getValue: (item) => getTreadmillNotes(item).join("\n"),
+    render: (item) =>
+      getTreadmillNotes(item).length > 0 ? (
+        <ul className="list-disc pl-4 space-y-1 marker:text-slate-500">
+          {getTreadmillNotes(item).map((note, idx) => (
+            <li key={idx}>{note}</li>
+          ))}
+        </ul>
+      ) : (
+        <span className="text-slate-600">None</span>
+      ),
+  },
+];
+
+export default function TreadmillComparison({
+  items,
+  onRemove,
+  onClear,
+}: TreadmillComparisonProps) {
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+  const weightUnit = WEIGHT_UNITS[useUnitSystem()];
+  const rows = useMemo(() => getComparisonRows(weightUnit), [weightUnit]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopyState("copied");
+      window.setTimeout(() => setCopyState("idle"), 2000);
+    } catch {
+      setCopyState("failed");
+    }
+  };
+
+  return (
+    <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/30">
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-slate-800 bg-slate-900/80">
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          Comparing {items.length} treadmills
+        </span>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors"
+          >
+            <Link2 className="w-3.5 h-3.5" />
+            {copyState === "copied"
+              ? "Link copied"
+              : copyState === "failed"
+                ? "Copy failed"
+                : "Copy link"}
+          </button>
+          <button
+            onClick={onClear}
+            className="px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse table-fixed min-w-[600px]">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="p-4 w-40"></th>
+              {items.map((item) => (
+                <th key={item.id} className="p-4 align-top">
+                  <div className="flex items-start justify-between gap-2">
+                    <a
+                      href={getTreadmillPath(item.id)}
+                      className="text-slate-200 hover:text-blue-300 hover:underline transition-colors"
+                    >
+                      <span className="block font-semibold">{item.make}</span>
+                      <span className="block text-slate-400 font-normal">
+                        {item.model}
+                      </span>
+                    </a>
+                    <button
+                      onClick={() => onRemove(item.id)}
+                      title="Remove from comparison"
+                      className="p-1 rounded-full text-slate-500 hover:text-slate-200 hover:bg-slate-800 transition-colors"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {rows.map((row) => {
+              const isDifferent =
+                new Set(items.map((item) => row.getValue(item))).size > 1;
+
+              return (
+                <tr
+                  key={row.label}
+                  className={isDifferent ? "bg-amber-950/20" : undefined}
+                >
+                  <th
+                    scope="row"
+                    className="p-4 text-xs font-semibold text-slate-400 align-top"
+                  >
+                    <span className="flex items-center gap-1.5">
+                      {isDifferent && (
+                        <span
+                          title="Differs between treadmills"
+                          className="w-1.5 h-1.5 rounded-full bg-amber-400 flex-shrink-0"
+                        />
+                      )}
+                      {row.label}
+                    </span>
+                  </th>
+                  {items.map((item) => (
+                    <td
+                      key={item.id}
+                      className="p-4 text-slate-300 align-top break-words"
+                    >
+                      {row.render ? row.render(item) : row.getValue(item)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
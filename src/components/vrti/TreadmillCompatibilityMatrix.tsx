@@ -0,0 +1,122 @@
+import React from "react";
+import { Check, Minus, TriangleAlert, X } from "lucide-react";
+import {
+  getTreadmillPath,
+  type CompatibilityCell,
+  type CompatibilityColumn,
+  type SupportStatus,
+  type Treadmill,
+} from "../../lib/vrti/treadmills";
+
+interface TreadmillCompatibilityMatrixProps {
+  data: Treadmill[];
+  columns: CompatibilityColumn[];
+}
+
+const STATUS_STYLES: Record<
+  SupportStatus,
+  { label: string; className: string; icon: React.ReactNode }
+> = {
+  supported: {
+    label: "Supported",
+    className: "text-green-400",
+    icon: <Check className="w-4 h-4" />,
+  },
+  experimental: {
+    label: "Experimental",
+    className: "text-amber-400",
+    icon: <TriangleAlert className="w-4 h-4" />,
+  },
+  unsupported: {
+    label: "Not supported",
+    className: "text-red-400",
+    icon: <X className="w-4 h-4" />,
+  },
+  unknown: {
+    label: "Unknown",
+    className: "text-slate-600",
+    icon: <Minus className="w-4 h-4" />,
+  },
+};
+
+const MatrixCell = ({ cell }: { cell: CompatibilityCell }) => {
+  const style = STATUS_STYLES[cell.status];
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span
+        title={style.label}
+        className={`inline-flex items-center gap-1 ${style.className}`}
+      >
+        {style.icon}
+        <span className="sr-only">{style.label}</span>
+        {cell.labels.length > 0 && (
+          <span className="text-xs text-slate-300">
+            {cell.labels.join(", ")}
+          </span>
+        )}
+      </span>
+      {cell.notes.map((note, idx) => (
+        <span key={idx} className="text-xs text-slate-400 leading-snug">
+          {note}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default function TreadmillCompatibilityMatrix({
+  data,
+  columns,
+}: TreadmillCompatibilityMatrixProps) {
+  return (
+    <table className="w-full text-left border-collapse min-w-[600px]">
+      <thead>
+        <tr className="bg-slate-900/80 border-b border-slate-800 text-slate-400 text-xs uppercase tracking-wider">
+          <th className="p-4 font-semibold">Treadmill</th>
+          {columns.map((column) => (
+            <th key={column.key} className="p-4 font-semibold">
+              {column.label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-800/50">
+        {data.length > 0 ? (
+          data.map((item) => (
+            <tr
+              key={item.id}
+              className="align-top hover:bg-slate-800/40 transition-colors"
+            >
+              <td className="p-4 font-medium text-slate-200">
+                <a
+                  href={getTreadmillPath(item.id)}
+                  className="hover:text-blue-300 hover:underline transition-colors"
+                >
+                  <span className="block">{item.make}</span>
+                  <span className="block text-slate-400 font-normal">
+                    {item.model}
+                  </span>
+                </a>
+              </td>
+              {columns.map((column) => (
+                <td key={column.key} className="p-4 max-w-[220px]">
+                  <MatrixCell cell={column.getCell(item)} />
+                </td>
+              ))}
+            </tr>
+          ))
+        ) : (
+          <tr>
+            <td
+              colSpan={columns.length + 1}
+              className="p-8 text-center text-slate-500"
+            >
+              No treadmills found matching your criteria.
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
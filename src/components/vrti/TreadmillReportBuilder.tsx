@@ -0,0 +1,291 @@
+import { useMemo, useState } from "react";
+import { Copy, Download, ExternalLink, X } from "lucide-react";
+import {
+  FEATURE_LABELS,
+  getDriverDisplayName,
+  isExperimentalDriver,
+  type Treadmill,
+} from "../../lib/vrti/treadmills";
+import {
+  REPORTABLE_FEATURES,
+  buildTreadmillReport,
+  createEmptyReport,
+  getMissingReportFields,
+  getReportableDrivers,
+  reportFromTreadmill,
+  type TreadmillReport,
+} from "../../lib/vrti/treadmillReport";
+import { downloadFile } from "../../lib/vrti/treadmillExport";
+
+interface TreadmillReportBuilderProps {
+  // The listed treadmill being corrected, if any
+  basedOn?: Treadmill;
+  vrtiVersions: string[];
+  onClose: () => void;
+}
+
+interface ReportOutputProps {
+  title: string;
+  content: string;
+  fileName: string;
+  type: string;
+}
+
+const inputClassName =
+  "w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/50 outline-none transition-all placeholder:text-slate-600 hover:border-slate-600";
+
+const labelClassName =
+  "text-xs font-semibold text-slate-400 uppercase tracking-wider";
+
+function ReportOutput({ title, content, fileName, type }: ReportOutputProps) {
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopyState("copied");
+      window.setTimeout(() => setCopyState("idle"), 2000);
+    } catch {
+      setCopyState("failed");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>{title}</span>
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors"
+          >
+            <Copy className="w-3.5 h-3.5" />
+            {copyState === "copied"
+              ? "Copied"
+              : copyState === "failed"
+                ? "Copy failed"
+                : "Copy"}
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadFile(fileName, content, type)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download
+          </button>
+        </div>
+      </div>
+      <pre className="max-h-72 overflow-auto p-3 rounded-lg bg-slate-950/60 border border-slate-800 text-xs text-slate-300 whitespace-pre-wrap break-words">
+        {content}
+      </pre>
+    </div>
+  );
+}
+
+export default function TreadmillReportBuilder({
+  basedOn,
+  vrtiVersions,
+  onClose,
+}: TreadmillReportBuilderProps) {
+  const [report, setReport] = useState<TreadmillReport>(() =>
+    basedOn ? reportFromTreadmill(basedOn) : createEmptyReport(),
+  );
+
+  const output = useMemo(
+    () => buildTreadmillReport(report, basedOn),
+    [report, basedOn],
+  );
+  const missingFields = getMissingReportFields(report);
+
+  const updateReport = (changes: Partial<TreadmillReport>) =>
+    setReport((prev) => ({ ...prev, ...changes }));
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value)
+      ? values.filter((current) => current !== value)
+      : [...values, value];
+
+  const toggleDriver = (driver: string) =>
+    updateReport({ drivers: toggle(report.drivers, driver) });
+
+  const toggleFeature = (feature: string) =>
+    updateReport({ features: toggle(report.features, feature) });
+
+  return (
+    <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/30">
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-slate-800 bg-slate-900/80">
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          {basedOn
+            ? `Report outdated info for ${basedOn.make} ${basedOn.model}`
+            : "Report a treadmill"}
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          title="Close"
+          className="p-1 rounded-full text-slate-500 hover:text-slate-200 hover:bg-slate-800 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(event) => event.preventDefault()}
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-2">
+              <span className={labelClassName}>Make</span>
+              <input
+                type="text"
+                required
+                placeholder="e.g. KingSmith"
+                value={report.make}
+                onChange={(event) => updateReport({ make: event.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className={labelClassName}>Model</span>
+              <input
+                type="text"
+                required
+                placeholder="e.g. WalkingPad P1"
+                value={report.model}
+                onChange={(event) =>
+                  updateReport({ model: event.target.value })
+                }
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className={labelClassName}>VRTI version</span>
+              <input
+                type="text"
+                list="treadmill-report-versions"
+                placeholder={vrtiVersions[0] ?? "e.g. 1.3.0"}
+                value={report.vrtiVersion}
+                onChange={(event) =>
+                  updateReport({ vrtiVersion: event.target.value })
+                }
+                className={inputClassName}
+              />
+              <datalist id="treadmill-report-versions">
+                {vrtiVersions.map((version) => (
+                  <option key={version} value={version} />
+                ))}
+              </datalist>
+            </label>
+          </div>
+
+          <fieldset className="flex flex-col gap-2">
+            <legend className={`${labelClassName} mb-2`}>
+              Working drivers
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {getReportableDrivers(basedOn).map((driver) => (
+                <label
+                  key={driver}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-slate-700 rounded-lg text-slate-300 hover:border-slate-600 cursor-pointer transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={report.drivers.includes(driver)}
+                    onChange={() => toggleDriver(driver)}
+                    className="accent-blue-500"
+                  />
+                  {getDriverDisplayName(driver)}
+                  {isExperimentalDriver(driver) ? " (experimental)" : ""}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="flex flex-col gap-2">
+            <legend className={`${labelClassName} mb-2`}>
+              Features that work
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {REPORTABLE_FEATURES.map((feature) => (
+                <label
+                  key={feature}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-slate-700 rounded-lg text-slate-300 hover:border-slate-600 cursor-pointer transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={report.features.includes(feature)}
+                    onChange={() => toggleFeature(feature)}
+                    className="accent-blue-500"
+                  />
+                  {FEATURE_LABELS[feature]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={report.experimental}
+              onChange={(event) =>
+                updateReport({ experimental: event.target.checked })
+              }
+              className="accent-blue-500"
+            />
+            Only works with experimental treadmill support enabled
+          </label>
+
+          <label className="flex flex-col gap-2">
+            <span className={labelClassName}>Notes</span>
+            <textarea
+              rows={4}
+              placeholder="One note per line, e.g. which firmware or Bluetooth adapter you used"
+              value={report.notes}
+              onChange={(event) => updateReport({ notes: event.target.value })}
+              className={inputClassName}
+            />
+          </label>
+        </form>
+
+        <div className="flex flex-col gap-4 min-w-0">
+          <ReportOutput
+            title="Record"
+            content={JSON.stringify(output.record, null, 2)}
+            fileName={`${output.record.id || "treadmill"}.json`}
+            type="application/json"
+          />
+          <ReportOutput
+            title="Issue"
+            content={`# ${output.issueTitle}\n\n${output.issueBody}`}
+            fileName={`${output.record.id || "treadmill"}-report.md`}
+            type="text/markdown"
+          />
+          {missingFields.length > 0 ? (
+            <p className="text-xs text-slate-500">
+              Fill in the {missingFields.join(", ")} to complete the report.
+            </p>
+          ) : (
+            <a
+              href={output.issueUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Open a prefilled issue on GitHub
+            </a>
+          )}
+          <p className="text-xs text-slate-500">
+            The report is generated in your browser. If you're offline, copy or
+            download it and submit it later.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,231 +1,158 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
-  Search,
-  ChevronLeft,
-  ChevronRight,
-  Filter,
-  X,
-  ChevronDown,
   Star,
+  List,
+  Grid3x3,
+  Pin,
+  PinOff,
+  MessageSquarePlus,
 } from "lucide-react";
-
-interface CompatibilityData {
-  experimental?: boolean;
-  driver?: string[];
-  notes?: string[];
-}
-
-interface VendorApp {
-  name: string;
-  supported: boolean;
-  notes?: string[];
-}
-
-interface TreadmillSource {
-  name?: string;
-  url?: string;
-}
-
-interface TreadmillWeight {
-  maxUser: number;
-  unit: string;
-}
-
-interface Treadmill {
-  id: string;
-  make: string;
-  model: string;
-  features: string[];
-  sharedNotes?: string[];
-  vendorApps?: VendorApp[];
-  source?: TreadmillSource;
-  weight?: TreadmillWeight;
-  vrtiData?: CompatibilityData;
-  fitOscData?: CompatibilityData;
-}
+import TreadmillComparison, {
+  MAX_COMPARE,
+  MIN_COMPARE,
+  usePinnedTreadmills,
+} from "./TreadmillComparison";
+import Badge from "../Badge";
+import DataTable, {
+  DataTableFilterSection,
+  INITIAL_DATA_TABLE_STATE,
+  dataTableButtonClassName,
+  type DataTableColumn,
+  type DataTableExporter,
+  type DataTableFacet,
+  type DataTableRowContext,
+  type DataTableSortOption,
+  type DataTableState,
+} from "../DataTable";
+import HighlightedText from "../HighlightedText";
+import TreadmillCompatibilityMatrix from "./TreadmillCompatibilityMatrix";
+import TreadmillReportBuilder from "./TreadmillReportBuilder";
+import {
+  FEATURE_LABELS,
+  getCompatibilityColumns,
+  getDriverBadgeVariant,
+  getDriverPresentations,
+  getMaxUserWeightKg,
+  getTreadmillNotes,
+  getTreadmillPath,
+  getTreadmillSearchFields,
+  getVRTIDrivers,
+  getWeightDisplay,
+  hasExperimentalOnlySupport,
+  isDeveloperChoice,
+  LB_PER_KG,
+  toKilograms,
+  type Treadmill,
+  type WeightUnit,
+} from "../../lib/vrti/treadmills";
+import type { TreadmillChangeBadge } from "../../lib/vrti/treadmillChanges";
+import { getListParam, replaceSearchParams } from "../../lib/urlState";
+import {
+  UNIT_SYSTEMS,
+  UNIT_SYSTEM_LABELS,
+  WEIGHT_UNITS,
+  setUnitSystem,
+} from "../../lib/units";
+import { useUnitSystem } from "../useUnitSystem";
+import {
+  downloadFile,
+  toExportCsv,
+  toExportJson,
+} from "../../lib/vrti/treadmillExport";
 
 interface TreadmillTableProps {
   data: Treadmill[];
+  // Released VRTI versions, newest first, suggested in the report form
+  vrtiVersions?: string[];
+  // Treadmills that were recently added or updated, by id
+  changeBadges?: Record<string, TreadmillChangeBadge>;
 }
 
-interface TreadmillDriverOption {
-  driver: string;
-  label: string;
-  experimental?: boolean;
+interface ReportState {
+  // Remounts the form so that it picks up a newly selected treadmill
+  key: number;
+  basedOn?: Treadmill;
 }
 
-interface DriverPresentation {
-  code: string;
-  label: string;
-  badgeClassName: string;
-}
-
-const FEATURE_LABELS: Record<string, string> = {
-  speedControl: "Speed Control",
-  inclineControl: "Incline Control",
-  cadence: "Cadence",
-  calories: "Calories",
-  heartRate: "Heart Rate",
-  steps: "Steps",
-  // Legacy support in case old data persists
-  stepCount: "Steps",
-};
-
-const BLUETOOTH_TREADMILL_DRIVER_OPTIONS: TreadmillDriverOption[] = [
-  {
-    driver: "FTMS",
-    label: "Generic FTMS",
-  },
-  {
-    driver: "KINGSMITH_FE00",
-    label: "KingSmith Type A",
-  },
+const SORT_OPTIONS: DataTableSortOption<Treadmill>[] = [
+  { key: "make", label: "Make", getValue: (item) => item.make },
+  { key: "model", label: "Model", getValue: (item) => item.model },
   {
-    driver: "KINGSMITH_1234",
-    label: "KingSmith Type B",
-  },
-  {
-    driver: "PITPAT_FBA0",
-    label: "PitPat",
+    key: "drivers",
+    label: "Number of drivers",
+    getValue: (item) => getVRTIDrivers(item).length,
   },
+  { key: "weight", label: "Max user weight", getValue: getMaxUserWeightKg },
+];
+
+const isSortKey = (value: string | null) =>
+  SORT_OPTIONS.some((option) => option.key === value);
+
+const FACETS: DataTableFacet<Treadmill>[] = [
   {
-    driver: "FTMS_KINGSMITH_24E2",
-    label: "KingSmith Type C",
+    key: "features",
+    label: "Features",
+    getValues: (item) => item.features,
+    formatValue: (feature) => FEATURE_LABELS[feature] || feature,
+    match: "all",
   },
   {
-    driver: "ESLINKER_YPOO",
-    label: "ESLinker",
+    key: "drivers",
+    label: "Drivers",
+    getValues: (item) =>
+      getDriverPresentations(item).map((driver) => driver.label),
+    match: "any",
   },
 ];
 
-const DRIVER_OPTIONS = Object.fromEntries(
-  BLUETOOTH_TREADMILL_DRIVER_OPTIONS.map((option) => [option.driver, option]),
-) as Record<string, TreadmillDriverOption>;
-
-const DRIVER_LABELS: Record<string, string> = {
-  ...Object.fromEntries(
-    BLUETOOTH_TREADMILL_DRIVER_OPTIONS.map((option) => [
-      option.driver,
-      option.label,
-    ]),
-  ),
-  "Kingsmith Walking Pad": "KingSmith Type A",
-};
-
-const DRIVER_BADGE_STYLES: Record<string, string> = {
-  FTMS: "bg-fuchsia-950/60 text-fuchsia-200 border-fuchsia-700/70",
-  ESLINKER_YPOO: "bg-violet-950/60 text-violet-200 border-violet-700/70",
-  FTMS_KINGSMITH_24E2:
-    "bg-orange-950/60 text-orange-200 border-orange-700/70",
-  KINGSMITH_1234: "bg-sky-950/60 text-sky-200 border-sky-700/70",
-  KINGSMITH_FE00: "bg-emerald-950/60 text-emerald-200 border-emerald-700/70",
-  PITPAT_FBA0: "bg-amber-950/60 text-amber-200 border-amber-700/70",
-};
-
-const getDriverDisplayName = (driver: string) =>
-  DRIVER_LABELS[driver] ?? driver.split("_").join(" ");
-
-const isExperimentalDriver = (driver: string) =>
-  DRIVER_OPTIONS[driver]?.experimental === true;
+const exportTreadmills = (format: "csv" | "json", items: Treadmill[]) => {
+  const origin = window.location.origin;
+  const fileName = `vrti-treadmills-${new Date().toISOString().slice(0, 10)}.${format}`;
 
-const getVRTIDrivers = (item: Treadmill) => item.vrtiData?.driver ?? [];
-
-const getDriverPresentations = (item: Treadmill): DriverPresentation[] => {
-  const drivers = getVRTIDrivers(item);
-
-  return drivers.map((driver) => ({
-    code: driver,
-    label: getDriverDisplayName(driver),
-    badgeClassName:
-      DRIVER_BADGE_STYLES[driver] ??
-      "bg-slate-800 text-slate-300 border-slate-700",
-  }));
-};
-
-const getDriverBadgeVariant = (
-  driverLabel: string,
-  experimental: boolean,
-): "default" | "success" | "tip" | "caution" | "danger" => {
-  if (experimental) {
-    return "success";
-  }
-
-  if (driverLabel === "Generic FTMS") {
-    return "tip";
+  if (format === "csv") {
+    downloadFile(
+      fileName,
+      toExportCsv(items, origin),
+      "text/csv;charset=utf-8",
+    );
+  } else {
+    downloadFile(fileName, toExportJson(items, origin), "application/json");
   }
-
-  return "success";
 };
 
-const hasExperimentalOnlySupport = (item: Treadmill) => {
-  const drivers = getVRTIDrivers(item);
-
-  return (
-    drivers.length > 0 &&
-    (item.vrtiData?.experimental === true ||
-      drivers.every((driver) => isExperimentalDriver(driver)))
-  );
-};
-
-const LB_PER_KG = 2.20462;
-
-const formatWeightValue = (value: number) => {
-  const rounded = Math.round(value * 10) / 10;
-  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1);
-};
+const EXPORTERS: DataTableExporter<Treadmill>[] = [
+  { label: "CSV", onExport: (items) => exportTreadmills("csv", items) },
+  { label: "JSON", onExport: (items) => exportTreadmills("json", items) },
+];
 
-const getWeightDisplay = (weight: TreadmillWeight) => {
-  const unit = weight.unit.trim().toLowerCase();
+interface EnteredWeight {
+  value: string;
+  // The unit the weight was entered in
+  unit: WeightUnit;
+}
 
-  if (unit === "kg") {
-    const pounds = weight.maxUser * LB_PER_KG;
-    return `${formatWeightValue(weight.maxUser)} kg / ${formatWeightValue(pounds)} lb`;
-  }
+// Shows an entered weight in another unit, keeping it as typed otherwise
+const getWeightInput = (
+  { value, unit }: EnteredWeight,
+  shownUnit: WeightUnit,
+) => {
+  const parsed = Number.parseFloat(value);
 
-  if (unit === "lb" || unit === "lbs") {
-    const kilograms = weight.maxUser / LB_PER_KG;
-    return `${formatWeightValue(kilograms)} kg / ${formatWeightValue(weight.maxUser)} lb`;
+  if (unit === shownUnit || !Number.isFinite(parsed)) {
+    return value;
   }
 
-  return `${formatWeightValue(weight.maxUser)} ${weight.unit}`;
-};
-
-// Developer's personal treadmill choice
-const DEVELOPER_CHOICE = {
-  make: "KingSmith",
-  model: "WalkingPad P1",
+  const converted = unit === "lb" ? parsed / LB_PER_KG : parsed * LB_PER_KG;
+  return String(Math.round(converted * 10) / 10);
 };
 
-const isDeveloperChoice = (item: Treadmill) => {
-  return (
-    item.make === DEVELOPER_CHOICE.make && item.model === DEVELOPER_CHOICE.model
-  );
-};
+const getRowId = (item: Treadmill) => item.id;
 
-const Badge = ({
-  text,
-  variant = "default",
-  className,
-}: {
-  text: string;
-  variant?: "default" | "success" | "tip" | "caution" | "danger";
-  className?: string;
-}) => {
-  const colors = {
-    default: "bg-slate-800 text-slate-300 border-slate-700",
-    success: "bg-green-950/50 text-green-400 border-green-900",
-    tip: "bg-purple-950/50 text-purple-400 border-purple-900",
-    caution: "bg-orange-950/50 text-orange-400 border-orange-900",
-    danger: "bg-red-950/50 text-red-400 border-red-900",
-  };
+const getRowLabel = (item: Treadmill) => `${item.make} ${item.model}`;
 
-  return (
-    <span
-      className={`text-xs font-medium px-2 py-0.5 rounded border whitespace-nowrap ${className ?? colors[variant] ?? colors.default}`}
-    >
-      {text}
-    </span>
-  );
+const CHANGE_BADGE_LABELS: Record<TreadmillChangeBadge, string> = {
+  new: "New",
+  updated: "Updated",
 };
 
 const ExperimentalWarningIcon = () => (
@@ -242,562 +169,570 @@ const ExperimentalWarningIcon = () => (
   </svg>
 );
 
-export default function TreadmillTable({ data }: TreadmillTableProps) {
-  const [search, setSearch] = useState("");
-  const [selectedFeatures, setSelectedFeatures] = useState<string[]>([]);
-  const [selectedDrivers, setSelectedDrivers] = useState<string[]>([]);
-  const [page, setPage] = useState(1);
-  const [itemsPerPage] = useState(20);
-  const [expandedRow, setExpandedRow] = useState<string | null>(null);
-  const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const filterRef = useRef<HTMLDivElement>(null);
+const hasDetails = (item: Treadmill) => {
+  const hasVRTINotes = (item.vrtiData?.notes?.length ?? 0) > 0;
+
+  return (
+    (item.sharedNotes?.length ?? 0) > 0 ||
+    !!item.source?.url ||
+    !!item.weight ||
+    !!item.vrtiData?.experimental ||
+    hasVRTINotes ||
+    getVRTIDrivers(item).length > 1
+  );
+};
+
+const DriverBadges = ({
+  item,
+  highlights,
+}: {
+  item: Treadmill;
+  highlights: DataTableRowContext["highlights"];
+}) => (
+  <>
+    {getDriverPresentations(item).map((driver) => (
+      <Badge
+        key={driver.code}
+        text={
+          <HighlightedText
+            text={driver.label}
+            ranges={highlights[`driver:${driver.code}`]}
+          />
+        }
+        className={driver.badgeClassName}
+        variant={getDriverBadgeVariant(
+          driver.label,
+          item.vrtiData?.experimental ?? false,
+        )}
+      />
+    ))}
+  </>
+);
 
+export default function TreadmillTable({
+  data,
+  vrtiVersions = [],
+  changeBadges = {},
+}: TreadmillTableProps) {
+  const [tableState, setTableState] = useState<DataTableState>(
+    INITIAL_DATA_TABLE_STATE,
+  );
+  const [viewMode, setViewMode] = useState<"list" | "matrix">("list");
+  const [showExperimental, setShowExperimental] = useState(false);
+  const [enteredWeight, setEnteredWeight] = useState<EnteredWeight>({
+    value: "",
+    unit: "kg",
+  });
+  const [isQueryStateRestored, setIsQueryStateRestored] = useState(false);
+  const [report, setReport] = useState<ReportState | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const weightUnit = WEIGHT_UNITS[useUnitSystem()];
+  const userWeight = getWeightInput(enteredWeight, weightUnit);
+
+  const userWeightValue = Number.parseFloat(enteredWeight.value);
+  const minUserWeightKg =
+    userWeightValue > 0
+      ? toKilograms(userWeightValue, enteredWeight.unit)
+      : null;
+
+  const resetPage = () => setTableState((prev) => ({ ...prev, page: 1 }));
+
+  // The matrix also covers treadmills that only work with other apps
   const supportedData = useMemo(
     () =>
       data.filter(
         (item) =>
-          getVRTIDrivers(item).length > 0 && !hasExperimentalOnlySupport(item),
+          (viewMode === "matrix" || getVRTIDrivers(item).length > 0) &&
+          (showExperimental || !hasExperimentalOnlySupport(item)),
       ),
-    [data],
+    [data, viewMode, showExperimental],
+  );
+
+  const matrixColumns = useMemo(() => getCompatibilityColumns(data), [data]);
+
+  const { pinnedIds, togglePinned, clearPinned } = usePinnedTreadmills(data);
+  const pinnedItems = useMemo(
+    () =>
+      pinnedIds
+        .map((id) => data.find((item) => item.id === id))
+        .filter((item): item is Treadmill => item !== undefined),
+    [data, pinnedIds],
   );
 
+  // Restore a shared view from the URL after hydration
   useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (
-        filterRef.current &&
-        !filterRef.current.contains(event.target as Node)
-      ) {
-        setIsFilterOpen(false);
-      }
-    }
-    document.addEventListener("mousedown", handleClickOutside);
-    return () => document.removeEventListener("mousedown", handleClickOutside);
+    const params = new URLSearchParams(window.location.search);
+    const sort = params.get("sort");
+    const unit = params.get("unit");
+
+    setTableState({
+      search: params.get("q") ?? "",
+      facets: {
+        features: getListParam(params, "features"),
+        drivers: getListParam(params, "drivers"),
+      },
+      sort:
+        sort && isSortKey(sort)
+          ? {
+              key: sort,
+              direction: params.get("dir") === "desc" ? "desc" : "asc",
+            }
+          : null,
+      page: 1,
+    });
+    setEnteredWeight({
+      value: params.get("weight") ?? "",
+      unit: unit === "lb" ? "lb" : "kg",
+    });
+    setShowExperimental(params.get("experimental") === "1");
+    setIsQueryStateRestored(true);
   }, []);
 
-  const stats = useMemo(() => {
-    const featureCounts: Record<string, number> = {};
-    const driverCounts: Record<string, number> = {};
-    const allFeaturesSet = new Set<string>();
-    const allDriversSet = new Set<string>();
-
-    supportedData.forEach((treadmill) => {
-      treadmill.features.forEach((feature) => {
-        allFeaturesSet.add(feature);
-        featureCounts[feature] = (featureCounts[feature] || 0) + 1;
-      });
-
-      getDriverPresentations(treadmill).forEach((driver) => {
-        allDriversSet.add(driver.label);
-        driverCounts[driver.label] = (driverCounts[driver.label] || 0) + 1;
-      });
-    });
+  useEffect(() => {
+    if (!isQueryStateRestored) {
+      return;
+    }
 
-    return {
-      features: Array.from(allFeaturesSet).sort(),
-      drivers: Array.from(allDriversSet).sort(),
-      featureCounts,
-      driverCounts,
-    };
-  }, [supportedData]);
-
-  const filteredData = useMemo(() => {
-    return supportedData.filter((item) => {
-      const driverPresentations = getDriverPresentations(item);
-      const normalizedSearch = search.toLowerCase();
-      const sourceName = item.source?.name?.toLowerCase() ?? "";
-
-      const matchesSearch =
-        item.make.toLowerCase().includes(normalizedSearch) ||
-        item.model.toLowerCase().includes(normalizedSearch) ||
-        sourceName.includes(normalizedSearch) ||
-        driverPresentations.some((driver) =>
-          driver.label.toLowerCase().includes(normalizedSearch),
-        );
-
-      const matchesFeatures =
-        selectedFeatures.length === 0 ||
-        selectedFeatures.every((feature) => item.features.includes(feature));
-
-      const matchesDrivers =
-        selectedDrivers.length === 0 ||
-        driverPresentations.some((driver) =>
-          selectedDrivers.includes(driver.label),
-        );
-
-      return matchesSearch && matchesFeatures && matchesDrivers;
+    const { search, facets, sort } = tableState;
+
+    replaceSearchParams({
+      q: search,
+      features: (facets.features ?? []).join(","),
+      drivers: (facets.drivers ?? []).join(","),
+      weight: minUserWeightKg !== null ? enteredWeight.value : null,
+      unit: minUserWeightKg !== null ? enteredWeight.unit : null,
+      sort: sort?.key ?? null,
+      dir: sort?.direction === "desc" ? "desc" : null,
+      experimental: showExperimental ? "1" : null,
     });
-  }, [search, selectedFeatures, selectedDrivers, supportedData]);
-
-  const totalPages = Math.ceil(filteredData.length / itemsPerPage);
-  const paginatedData = filteredData.slice(
-    (page - 1) * itemsPerPage,
-    page * itemsPerPage,
+  }, [
+    isQueryStateRestored,
+    tableState,
+    enteredWeight,
+    minUserWeightKg,
+    showExperimental,
+  ]);
+
+  // Treadmills without a listed weight limit are kept
+  const matchesWeight = useMemo(
+    () =>
+      minUserWeightKg === null
+        ? undefined
+        : (item: Treadmill) => {
+            const maxUserWeightKg = getMaxUserWeightKg(item);
+            return (
+              maxUserWeightKg === undefined ||
+              maxUserWeightKg >= minUserWeightKg
+            );
+          },
+    [minUserWeightKg],
   );
 
-  const handlePageChange = (newPage: number) => {
-    if (newPage >= 1 && newPage <= totalPages) {
-      setPage(newPage);
-    }
-  };
-
-  const toggleFeature = (feature: string) => {
-    setSelectedFeatures((prev) =>
-      prev.includes(feature)
-        ? prev.filter((current) => current !== feature)
-        : [...prev, feature],
+  const openReport = (basedOn?: Treadmill) => {
+    setReport((prev) => ({ key: (prev?.key ?? 0) + 1, basedOn }));
+    window.requestAnimationFrame(() =>
+      reportRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }),
     );
-    setPage(1);
   };
 
-  const toggleDriver = (driver: string) => {
-    setSelectedDrivers((prev) =>
-      prev.includes(driver)
-        ? prev.filter((current) => current !== driver)
-        : [...prev, driver],
+  const isPinLimitReached = pinnedIds.length >= MAX_COMPARE;
+
+  const columns: DataTableColumn<Treadmill>[] = [
+    {
+      key: "make",
+      header: "Make",
+      sortKey: "make",
+      headerClassName: "w-[20%]",
+      cellClassName: "p-4 font-medium text-slate-200",
+      render: (item, { highlights }) => (
+        <div className="flex items-center gap-2">
+          <HighlightedText text={item.make} ranges={highlights.make} />
+          {isDeveloperChoice(item) && (
+            <span
+              title="The treadmill model used by the developer"
+              role="img"
+              aria-label="Developer's choice"
+              className="inline-flex items-center justify-center text-amber-400"
+            >
+              <Star className="w-3 h-3 fill-current" />
+            </span>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "model",
+      header: "Model",
+      sortKey: "model",
+      headerClassName: "w-[25%]",
+      cellClassName:
+        "p-4 text-slate-300 group-hover:text-slate-100 transition-colors",
+      render: (item, { highlights }) => (
+        <div className="flex items-center gap-2">
+          {hasExperimentalOnlySupport(item) && (
+            <span
+              title="Experimental Support"
+              role="img"
+              aria-label="Experimental support"
+              className="inline-flex items-center justify-center text-amber-400"
+            >
+              <ExperimentalWarningIcon />
+            </span>
+          )}
+          <a
+            href={getTreadmillPath(item.id)}
+            onClick={(event) => event.stopPropagation()}
+            className="hover:text-blue-300 hover:underline transition-colors"
+          >
+            <HighlightedText text={item.model} ranges={highlights.model} />
+          </a>
+          {changeBadges[item.id] && (
+            <Badge
+              text={CHANGE_BADGE_LABELS[changeBadges[item.id]]}
+              variant={changeBadges[item.id] === "new" ? "success" : "tip"}
+            />
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "drivers",
+      header: "Driver",
+      sortKey: "drivers",
+      headerClassName: "w-[20%]",
+      render: (item, { highlights }) => (
+        <div className="flex flex-wrap gap-1.5">
+          <DriverBadges item={item} highlights={highlights} />
+        </div>
+      ),
+    },
+    {
+      key: "features",
+      header: "Features",
+      headerClassName: "w-[35%]",
+      render: (item, { highlights }) => (
+        <div className="flex flex-wrap gap-1.5">
+          {item.features.map((feature, idx) => (
+            <span
+              key={feature}
+              className="text-slate-400 text-xs group-hover:text-slate-300 transition-colors"
+            >
+              <HighlightedText
+                text={FEATURE_LABELS[feature] || feature}
+                ranges={highlights[`feature:${feature}`]}
+              />
+              {idx !== item.features.length - 1 ? ", " : ""}
+            </span>
+          ))}
+        </div>
+      ),
+    },
+  ];
+
+  const renderPinButton = (item: Treadmill) => {
+    const isPinned = pinnedIds.includes(item.id);
+
+    return (
+      <button
+        onClick={(event) => {
+          event.stopPropagation();
+          togglePinned(item.id);
+        }}
+        disabled={!isPinned && isPinLimitReached}
+        aria-pressed={isPinned}
+        aria-label={`Pin ${item.make} ${item.model} to compare`}
+        title={
+          isPinned
+            ? "Remove from comparison"
+            : isPinLimitReached
+              ? `You can compare up to ${MAX_COMPARE} treadmills`
+              : "Pin to compare"
+        }
+        className={`p-1 rounded-full w-6 h-6 flex items-center justify-center transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+          isPinned
+            ? "bg-blue-600/30 text-blue-300"
+            : "hover:bg-slate-700/30 text-slate-500 hover:text-blue-400"
+        }`}
+      >
+        {isPinned ? (
+          <PinOff className="w-3.5 h-3.5" />
+        ) : (
+          <Pin className="w-3.5 h-3.5" />
+        )}
+      </button>
     );
-    setPage(1);
   };
 
-  const clearFilters = () => {
-    setSearch("");
-    setSelectedFeatures([]);
-    setSelectedDrivers([]);
-    setPage(1);
-  };
+  const renderDetails = (
+    item: Treadmill,
+    { highlights }: DataTableRowContext,
+  ) => {
+    const isExperimental = item.vrtiData?.experimental ?? false;
+    const combinedNotes = getTreadmillNotes(item);
 
-  const activeFilterCount = selectedFeatures.length + selectedDrivers.length;
-  const isClearDisabled = !search && activeFilterCount === 0;
+    return (
+      <>
+        {isDeveloperChoice(item) && (
+          <div className="flex items-start gap-2 p-3 bg-gradient-to-r from-amber-950/30 to-orange-950/20 border border-amber-900/30 rounded-lg">
+            <Star className="w-4 h-4 text-amber-400 fill-current flex-shrink-0 mt-0.5" />
+            <div>
+              <h4 className="font-semibold text-amber-400 text-sm">
+                Developer&apos;s Choice
+              </h4>
+              <p className="text-slate-400 text-sm mt-1">
+                This is the treadmill currently used by the Developer.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {item.vrtiData && (
+          <div>
+            <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
+              VRTI Driver(s)
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              <DriverBadges item={item} highlights={highlights} />
+            </div>
+            {isExperimental && (
+              <p className="text-amber-300 text-sm italic mt-2">
+                This treadmill still only has experimental support.
+              </p>
+            )}
+          </div>
+        )}
 
-  const hasDetails = (item: Treadmill) => {
-    const hasVRTINotes = (item.vrtiData?.notes?.length ?? 0) > 0;
+        {item.weight && (
+          <div>
+            <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
+              Specifications
+            </h4>
+            <p className="text-slate-300 text-sm">
+              Max user weight: {getWeightDisplay(item.weight, weightUnit)}
+            </p>
+          </div>
+        )}
 
-    return (
-      (item.sharedNotes?.length ?? 0) > 0 ||
-      !!item.source?.url ||
-      !!item.weight ||
-      !!item.vrtiData?.experimental ||
-      hasVRTINotes ||
-      getVRTIDrivers(item).length > 1
+        {combinedNotes.length > 0 && (
+          <div>
+            <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
+              Details & Notes
+            </h4>
+            <ul className="list-disc pl-5 space-y-1 text-slate-300 text-sm marker:text-slate-500">
+              {combinedNotes.map((note, idx) => (
+                <li key={idx}>
+                  <HighlightedText
+                    text={note}
+                    ranges={highlights[`note:${idx}`]}
+                  />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 mt-1">
+          <a
+            href={getTreadmillPath(item.id)}
+            className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 hover:underline transition-colors"
+          >
+            View details page
+          </a>
+          <button
+            onClick={() => openReport(item)}
+            className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 hover:underline transition-colors"
+          >
+            Report outdated info
+          </button>
+          {item.source?.url ? (
+            <a
+              href={item.source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 hover:underline transition-colors"
+            >
+              {item.source.name ?? "Source"}
+            </a>
+          ) : (
+            item.source?.name && (
+              <span className="text-xs text-slate-400">{item.source.name}</span>
+            )
+          )}
+        </div>
+      </>
     );
   };
 
-  return (
-    <div className="flex flex-col gap-4 not-content text-sm font-sans mt-6">
-      <div className="flex flex-col md:flex-row gap-3">
-        <div className="relative flex-grow">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+  const weightFilter = (
+    <DataTableFilterSection title="Your Weight">
+      <div className="p-3 flex flex-col gap-2">
+        <div className="flex items-center gap-2">
           <input
-            type="text"
-            placeholder="Search make, model..."
-            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg py-2 pl-10 pr-4 text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/50 outline-none transition-all placeholder:text-slate-500 hover:border-slate-600"
-            value={search}
+            type="number"
+            min={0}
+            step="any"
+            inputMode="decimal"
+            placeholder="e.g. 90"
+            aria-label="Your weight"
+            value={userWeight}
             onChange={(event) => {
-              setSearch(event.target.value);
-              setPage(1);
+              setEnteredWeight({
+                value: event.target.value,
+                unit: weightUnit,
+              });
+              resetPage();
             }}
+            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg py-1.5 px-3 text-slate-200 focus:border-blue-500 outline-none transition-colors placeholder:text-slate-500"
           />
+          <div className="flex items-center gap-1">
+            {UNIT_SYSTEMS.map((system) => (
+              <button
+                key={system}
+                onClick={() => setUnitSystem(system)}
+                aria-pressed={weightUnit === WEIGHT_UNITS[system]}
+                title={`Use ${UNIT_SYSTEM_LABELS[system].toLowerCase()} units across the site`}
+                className={`px-2 py-1.5 rounded text-xs transition-colors ${
+                  weightUnit === WEIGHT_UNITS[system]
+                    ? "bg-blue-600 text-white"
+                    : "text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+                }`}
+              >
+                {WEIGHT_UNITS[system]}
+              </button>
+            ))}
+          </div>
         </div>
+        <p className="text-[11px] text-slate-500 leading-snug">
+          Hides treadmills rated below this weight. Treadmills without a listed
+          limit are still shown.
+        </p>
+      </div>
+    </DataTableFilterSection>
+  );
 
-        <div className="relative min-w-[200px]" ref={filterRef}>
-          <button
-            onClick={() => setIsFilterOpen(!isFilterOpen)}
-            className={`w-full flex items-center justify-between bg-slate-900/50 border rounded-lg py-2 pl-3 pr-3 text-slate-200 transition-colors ${isFilterOpen ? "border-blue-500 ring-1 ring-blue-500/50" : "border-slate-700 hover:border-slate-600"}`}
-          >
-            <div className="flex items-center gap-2 overflow-hidden">
-              <Filter className="w-4 h-4 text-slate-400 flex-shrink-0" />
-              <span className="truncate">
-                {activeFilterCount === 0
-                  ? "Filter"
-                  : `${activeFilterCount} active`}
-              </span>
-            </div>
-            <ChevronDown
-              className={`w-4 h-4 text-slate-400 transition-transform ${isFilterOpen ? "rotate-180" : ""}`}
-            />
-          </button>
-
-          {isFilterOpen && (
-            <div className="absolute z-50 top-full left-0 right-0 mt-2 bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden animate-in fade-in zoom-in-95 duration-100 ring-1 ring-black/50">
-              <div className="max-h-[60vh] overflow-y-auto">
-                <div className="sticky top-0 bg-slate-900 p-2 border-b border-slate-800 z-10">
-                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-2">
-                    Features
-                  </span>
-                </div>
-                <div className="p-1">
-                  {stats.features.map((feature) => (
-                    <label
-                      key={feature}
-                      className="flex items-center justify-between px-2 py-2 hover:bg-slate-800 rounded cursor-pointer group transition-colors"
-                      onClick={(event) => {
-                        event.preventDefault();
-                        toggleFeature(feature);
-                      }}
-                    >
-                      <div className="flex items-center gap-2">
-                        <div
-                          className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${selectedFeatures.includes(feature) ? "bg-blue-600 border-blue-600" : "border-slate-600 group-hover:border-slate-500"}`}
-                        >
-                          {selectedFeatures.includes(feature) && (
-                            <svg
-                              className="w-3 h-3 text-white"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
-                            >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth="3"
-                                d="M5 13l4 4L19 7"
-                              ></path>
-                            </svg>
-                          )}
-                        </div>
-                        <span className="text-slate-300 text-sm group-hover:text-slate-200 transition-colors">
-                          {FEATURE_LABELS[feature] || feature}
-                        </span>
-                      </div>
-                      <span className="text-xs text-slate-500 tabular-nums">
-                        ({stats.featureCounts[feature]})
-                      </span>
-                    </label>
-                  ))}
-                </div>
-
-                <div className="sticky top-0 bg-slate-900 p-2 border-y border-slate-800 z-10 mt-1">
-                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-2">
-                    Drivers
-                  </span>
-                </div>
-                <div className="p-1">
-                  {stats.drivers.map((driver) => (
-                    <label
-                      key={driver}
-                      className="flex items-center justify-between px-2 py-2 hover:bg-slate-800 rounded cursor-pointer group transition-colors"
-                      onClick={(event) => {
-                        event.preventDefault();
-                        toggleDriver(driver);
-                      }}
-                    >
-                      <div className="flex items-center gap-2">
-                        <div
-                          className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${selectedDrivers.includes(driver) ? "bg-blue-600 border-blue-600" : "border-slate-600 group-hover:border-slate-500"}`}
-                        >
-                          {selectedDrivers.includes(driver) && (
-                            <svg
-                              className="w-3 h-3 text-white"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
-                            >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth="3"
-                                d="M5 13l4 4L19 7"
-                              ></path>
-                            </svg>
-                          )}
-                        </div>
-                        <span className="text-slate-300 text-sm group-hover:text-slate-200 transition-colors">
-                          {driver}
-                        </span>
-                      </div>
-                      <span className="text-xs text-slate-500 tabular-nums">
-                        ({stats.driverCounts[driver]})
-                      </span>
-                    </label>
-                  ))}
-                </div>
-              </div>
-
-              {activeFilterCount > 0 && (
-                <div className="p-2 border-t border-slate-800 bg-slate-900">
-                  <button
-                    onClick={clearFilters}
-                    className="w-full text-xs text-center text-slate-400 hover:text-slate-200 py-1 transition-colors"
-                  >
-                    Clear selection
-                  </button>
-                </div>
-              )}
-            </div>
-          )}
-        </div>
-
+  const toolbar = (
+    <>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => {
+            setViewMode("list");
+            resetPage();
+          }}
+          aria-pressed={viewMode === "list"}
+          className={dataTableButtonClassName(viewMode === "list")}
+        >
+          <List className="w-3.5 h-3.5" />
+          List
+        </button>
         <button
-          onClick={clearFilters}
-          disabled={isClearDisabled}
-          className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors whitespace-nowrap ${
-            isClearDisabled
-              ? "bg-slate-900/30 border-slate-800 text-slate-600 cursor-not-allowed"
-              : "bg-slate-900/50 hover:bg-slate-800 border-slate-700 text-slate-300 hover:text-white"
-          }`}
+          onClick={() => {
+            setViewMode("matrix");
+            resetPage();
+          }}
+          aria-pressed={viewMode === "matrix"}
+          className={dataTableButtonClassName(viewMode === "matrix")}
         >
-          <X className={`w-4 h-4 ${isClearDisabled ? "opacity-50" : ""}`} />
-          <span className="hidden md:inline">Clear</span>
+          <Grid3x3 className="w-3.5 h-3.5" />
+          App Compatibility
         </button>
       </div>
+      <button
+        onClick={() => {
+          setShowExperimental(!showExperimental);
+          resetPage();
+        }}
+        aria-pressed={showExperimental}
+        className={dataTableButtonClassName(showExperimental)}
+      >
+        <span className="inline-flex items-center justify-center text-amber-400">
+          <ExperimentalWarningIcon />
+        </span>
+        Show experimental-only models
+      </button>
+    </>
+  );
 
-      <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/30">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left border-collapse min-w-[600px]">
-            <thead>
-              <tr className="bg-slate-900/80 border-b border-slate-800 text-slate-400 text-xs uppercase tracking-wider">
-                <th className="p-4 font-semibold w-[20%]">Make</th>
-                <th className="p-4 font-semibold w-[25%]">Model</th>
-                <th className="p-4 font-semibold w-[20%]">Driver</th>
-                <th className="p-4 font-semibold w-[35%]">Features</th>
-                <th className="p-4 w-10"></th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-800/50">
-              {paginatedData.length > 0 ? (
-                paginatedData.map((item) => {
-                  const canExpand = hasDetails(item);
-                  const driverPresentations = getDriverPresentations(item);
-                  const isExperimental = item.vrtiData?.experimental ?? false;
-                  const isExperimentalOnly = hasExperimentalOnlySupport(item);
-                  const combinedNotes = [
-                    ...(item.sharedNotes ?? []),
-                    ...(item.vrtiData?.notes ?? []),
-                  ];
-
-                  return (
-                    <React.Fragment key={item.id}>
-                      <tr
-                        className={`transition-colors group ${
-                          canExpand ? "cursor-pointer" : ""
-                        } ${
-                          expandedRow === item.id
-                            ? "bg-slate-800/60"
-                            : "hover:bg-slate-800/40"
-                        }`}
-                        onClick={() =>
-                          canExpand &&
-                          setExpandedRow(
-                            expandedRow === item.id ? null : item.id,
-                          )
-                        }
-                      >
-                        <td className="p-4 font-medium text-slate-200">
-                          <div className="flex items-center gap-2">
-                            {item.make}
-                            {isDeveloperChoice(item) && (
-                              <span
-                                title="The treadmill model used by the developer"
-                                className="inline-flex items-center justify-center text-amber-400"
-                              >
-                                <Star className="w-3 h-3 fill-current" />
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                        <td className="p-4 text-slate-300 group-hover:text-slate-100 transition-colors">
-                          <div className="flex items-center gap-2">
-                            {isExperimentalOnly && (
-                              <span
-                                title="Experimental Support"
-                                className="inline-flex items-center justify-center text-amber-400"
-                              >
-                                <ExperimentalWarningIcon />
-                              </span>
-                            )}
-                            <span>{item.model}</span>
-                          </div>
-                        </td>
-                        <td className="p-4">
-                          <div className="flex flex-wrap gap-1.5">
-                            {driverPresentations.map((driver) => (
-                              <Badge
-                                key={`${item.id}-${driver.code}`}
-                                text={driver.label}
-                                className={driver.badgeClassName}
-                                variant={getDriverBadgeVariant(
-                                  driver.label,
-                                  isExperimental,
-                                )}
-                              />
-                            ))}
-                          </div>
-                        </td>
-                        <td className="p-4">
-                          <div className="flex flex-wrap gap-1.5">
-                            {item.features.map((feature) => (
-                              <span
-                                key={feature}
-                                className="text-slate-400 text-xs group-hover:text-slate-300 transition-colors"
-                              >
-                                {FEATURE_LABELS[feature] || feature}
-                                {item.features.indexOf(feature) !==
-                                item.features.length - 1
-                                  ? ", "
-                                  : ""}
-                              </span>
-                            ))}
-                          </div>
-                        </td>
-                        <td className="p-4 text-center">
-                          {canExpand && (
-                            <button
-                              className={`p-1 rounded-full w-6 h-6 flex items-center justify-center transition-all ${
-                                expandedRow === item.id
-                                  ? "bg-slate-700/50 text-blue-400 rotate-180"
-                                  : "hover:bg-slate-700/30 text-slate-500 group-hover:text-blue-400"
-                              }`}
-                            >
-                              <ChevronDown className="w-4 h-4" />
-                            </button>
-                          )}
-                        </td>
-                      </tr>
-                      {expandedRow === item.id && canExpand && (
-                        <tr className="bg-slate-800/30 border-b border-slate-800/50 animate-in fade-in duration-200">
-                          <td colSpan={5} className="px-4 pb-4 pt-0">
-                            <div className="ml-4 pl-4 border-l border-blue-500/30 py-2 flex flex-col gap-4">
-                              {isDeveloperChoice(item) && (
-                                <div className="flex items-start gap-2 p-3 bg-gradient-to-r from-amber-950/30 to-orange-950/20 border border-amber-900/30 rounded-lg">
-                                  <Star className="w-4 h-4 text-amber-400 fill-current flex-shrink-0 mt-0.5" />
-                                  <div>
-                                    <h4 className="font-semibold text-amber-400 text-sm">
-                                      Developer&apos;s Choice
-                                    </h4>
-                                    <p className="text-slate-400 text-sm mt-1">
-                                      This is the treadmill currently used by
-                                      the Developer.
-                                    </p>
-                                  </div>
-                                </div>
-                              )}
-
-                              {item.vrtiData && (
-                                <div>
-                                  <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
-                                    VRTI Driver(s)
-                                  </h4>
-                                  <div className="flex flex-wrap gap-2">
-                                    {driverPresentations.map((driver) => (
-                                      <Badge
-                                        key={`${item.id}-details-${driver.code}`}
-                                        text={driver.label}
-                                        className={driver.badgeClassName}
-                                        variant={getDriverBadgeVariant(
-                                          driver.label,
-                                          isExperimental,
-                                        )}
-                                      />
-                                    ))}
-                                  </div>
-                                  {isExperimental && (
-                                    <p className="text-amber-300 text-sm italic mt-2">
-                                      This treadmill still only has experimental
-                                      support.
-                                    </p>
-                                  )}
-                                </div>
-                              )}
-
-                              {item.weight && (
-                                <div>
-                                  <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
-                                    Specifications
-                                  </h4>
-                                  <p className="text-slate-300 text-sm">
-                                    Max user weight:{" "}
-                                    {getWeightDisplay(item.weight)}
-                                  </p>
-                                </div>
-                              )}
-
-                              {combinedNotes.length > 0 && (
-                                <div>
-                                  <h4 className="font-bold text-slate-400 text-[10px] uppercase tracking-wider mb-2">
-                                    Details & Notes
-                                  </h4>
-                                  <ul className="list-disc pl-5 space-y-1 text-slate-300 text-sm marker:text-slate-500">
-                                    {combinedNotes.map((note, idx) => (
-                                      <li key={idx}>{note}</li>
-                                    ))}
-                                  </ul>
-                                </div>
-                              )}
-
-                              {(item.source?.url || item.source?.name) && (
-                                <div className="mt-1">
-                                  {item.source?.url ? (
-                                    <a
-                                      href={item.source.url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 hover:underline transition-colors"
-                                    >
-                                      {item.source.name ?? "Source"}
-                                    </a>
-                                  ) : (
-                                    <span className="text-xs text-slate-400">
-                                      {item.source?.name}
-                                    </span>
-                                  )}
-                                </div>
-                              )}
-                            </div>
-                          </td>
-                        </tr>
-                      )}
-                    </React.Fragment>
-                  );
-                })
-              ) : (
-                <tr>
-                  <td colSpan={5} className="p-8 text-center text-slate-500">
-                    No treadmills found matching your criteria.
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
+  const comparison =
+    pinnedItems.length >= MIN_COMPARE ? (
+      <TreadmillComparison
+        items={pinnedItems}
+        onRemove={togglePinned}
+        onClear={clearPinned}
+      />
+    ) : (
+      pinnedItems.length > 0 && (
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border border-slate-800 rounded-lg bg-slate-900/30 text-xs text-slate-400">
+          <span>
+            Pinned {pinnedItems[0].make} {pinnedItems[0].model}. Pin at least
+            one more treadmill to compare them side by side.
+          </span>
+          <button
+            onClick={clearPinned}
+            className="px-2 py-1 rounded hover:text-slate-200 hover:bg-slate-800 transition-colors"
+          >
+            Clear
+          </button>
         </div>
+      )
+    );
 
-        {totalPages > 1 && (
-          <div className="flex items-center justify-between p-4 border-t border-slate-800 bg-slate-900/30">
-            <div className="text-xs text-slate-500">
-              Showing {filteredData.length} treadmills
-            </div>
-            <div className="flex items-center gap-2">
-              <button
-                onClick={() => handlePageChange(page - 1)}
-                disabled={page === 1}
-                className="p-2 rounded hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-slate-400"
-              >
-                <ChevronLeft className="w-4 h-4" />
-              </button>
-              <div className="flex items-center gap-1">
-                {Array.from({ length: totalPages }, (_, idx) => idx + 1).map(
-                  (pageNumber) => (
-                    <button
-                      key={pageNumber}
-                      onClick={() => handlePageChange(pageNumber)}
-                      className={`w-8 h-8 flex items-center justify-center rounded text-xs font-medium transition-all ${
-                        page === pageNumber
-                          ? "bg-blue-600 text-white shadow-lg shadow-blue-900/20"
-                          : "text-slate-400 hover:bg-slate-800 hover:text-white"
-                      }`}
-                    >
-                      {pageNumber}
-                    </button>
-                  ),
-                )}
-              </div>
-              <button
-                onClick={() => handlePageChange(page + 1)}
-                disabled={page === totalPages}
-                className="p-2 rounded hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-slate-400"
-              >
-                <ChevronRight className="w-4 h-4" />
-              </button>
-            </div>
-          </div>
+  return (
+    <div className="flex flex-col gap-4 not-content text-sm font-sans mt-6">
+      <DataTable
+        data={supportedData}
+        columns={columns}
+        getRowId={getRowId}
+        getRowLabel={getRowLabel}
+        itemName={["treadmill", "treadmills"]}
+        state={tableState}
+        onStateChange={setTableState}
+        getSearchFields={getTreadmillSearchFields}
+        searchPlaceholder="Search make, model, driver, notes..."
+        facets={FACETS}
+        filter={matchesWeight}
+        filterControls={weightFilter}
+        filterControlsActiveCount={minUserWeightKg !== null ? 1 : 0}
+        onClearFilters={() =>
+          setEnteredWeight((prev) => ({ ...prev, value: "" }))
+        }
+        sortOptions={SORT_OPTIONS}
+        showSortControl
+        exporters={EXPORTERS}
+        toolbar={toolbar}
+        beforeTable={comparison}
+        renderView={
+          viewMode === "matrix"
+            ? (rows) => (
+                <TreadmillCompatibilityMatrix
+                  data={rows}
+                  columns={matrixColumns}
+                />
+              )
+            : undefined
+        }
+        hasDetails={hasDetails}
+        renderDetails={renderDetails}
+        renderRowActions={renderPinButton}
+        announceResults={isQueryStateRestored}
+      />
+
+      <div ref={reportRef} className="scroll-mt-20">
+        {report ? (
+          <TreadmillReportBuilder
+            key={report.key}
+            basedOn={report.basedOn}
+            vrtiVersions={vrtiVersions}
+            onClose={() => setReport(null)}
+          />
+        ) : (
+          <button
+            onClick={() => openReport()}
+            className="flex items-center gap-2 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+            Is your treadmill missing from this list? Report it
+          </button>
         )}
       </div>
     </div>
@@ -1,5 +1,9 @@
 import { defineCollection, z } from "astro:content";
 import { docsSchema } from "@astrojs/starlight/schema";
+import {
+  ADAPTER_INTERFACES,
+  ADAPTER_STATUSES,
+} from "../lib/vrti/bluetoothAdapters";
 
 export const collections = {
   docs: defineCollection({
@@ -12,4 +16,24 @@ export const collections = {
       }),
      }),
   }),
+  bluetoothAdapters: defineCollection({
+    type: "data",
+    schema: z.object({
+      model: z.string(),
+      status: z.enum(ADAPTER_STATUSES),
+      chipset: z.string(),
+      bluetoothVersion: z.string().regex(/^\d+\.\d+$/),
+      interface: z.enum(ADAPTER_INTERFACES),
+      // USB vendor and product IDs as "VID:PID", e.g. "2357:0604"
+      hardwareIds: z
+        .array(z.string().regex(/^[0-9A-F]{4}:[0-9A-F]{4}$/))
+        .default([]),
+      knownIssues: z.array(z.string()).default([]),
+      driverNotes: z.array(z.string()).default([]),
+      // VRTI releases the adapter was confirmed to work with, e.g. "1.3.0"
+      testedVrtiVersions: z
+        .array(z.string().regex(/^\d+\.\d+\.\d+$/))
+        .default([]),
+    }),
+  }),
 };
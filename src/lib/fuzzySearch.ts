@@ -0,0 +1,289 @@
+export interface SearchFieldInput {
+  key: string;
+  text: string;
+  weight: number;
+  // Also fuzzy-match against substrings that span word boundaries, so that
+  // "a1pro" and "a1 pro" find each other. Meant for short fields like names.
+  spanWords?: boolean;
+}
+
+export type HighlightRange = [start: number, end: number];
+
+export type SearchHighlights = Record<string, HighlightRange[]>;
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  highlights: SearchHighlights;
+}
+
+interface IndexedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  key: string;
+  weight: number;
+  spanWords: boolean;
+  words: IndexedWord[];
+  // All alphanumeric characters without separators, plus the index of each
+  // one in the original text so that matches can be mapped back
+  compact: string;
+  compactIndices: number[];
+}
+
+interface IndexedItem<T> {
+  item: T;
+  fields: IndexedField[];
+}
+
+interface TokenMatch {
+  score: number;
+  range: HighlightRange;
+}
+
+export type SearchIndex<T> = IndexedItem<T>[];
+
+const foldCharacter = (character: string) =>
+  character
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .charAt(0);
+
+const isAlphanumeric = (character: string) => /^[\p{L}\p{N}]$/u.test(character);
+
+function indexField({
+  key,
+  text,
+  weight,
+  spanWords,
+}: SearchFieldInput): IndexedField {
+  const words: IndexedWord[] = [];
+  let compact = "";
+  const compactIndices: number[] = [];
+  let current: IndexedWord | null = null;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const character = foldCharacter(text[index]);
+
+    if (character && isAlphanumeric(character)) {
+      compact += character;
+      compactIndices.push(index);
+
+      if (current) {
+        current.text += character;
+        current.end = index + 1;
+      } else {
+        current = { text: character, start: index, end: index + 1 };
+      }
+    } else if (current) {
+      words.push(current);
+      current = null;
+    }
+  }
+
+  if (current) {
+    words.push(current);
+  }
+
+  return {
+    key,
+    weight,
+    spanWords: spanWords ?? false,
+    words,
+    compact,
+    compactIndices,
+  };
+}
+
+/**
+ * Splits a query into normalized tokens, using the same folding rules
+ * (case, diacritics, punctuation) that are applied to the indexed text.
+ */
+export function tokenizeQuery(query: string) {
+  return indexField({ key: "", text: query, weight: 0 }).words.map(
+    (word) => word.text,
+  );
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+const getMaxEdits = (token: string) =>
+  token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+
+function compactRange(
+  field: IndexedField,
+  start: number,
+  length: number,
+): HighlightRange {
+  return [
+    field.compactIndices[start],
+    field.compactIndices[start + length - 1] + 1,
+  ];
+}
+
+function matchToken(token: string, field: IndexedField): TokenMatch | null {
+  let best: TokenMatch | null = null;
+  const consider = (score: number, range: HighlightRange) => {
+    if (!best || score > best.score) {
+      best = { score, range };
+    }
+  };
+
+  for (const word of field.words) {
+    if (word.text === token) {
+      return { score: 1, range: [word.start, word.end] };
+    }
+
+    if (word.text.startsWith(token)) {
+      consider(0.9, [word.start, word.start + token.length]);
+    }
+  }
+
+  const compactIndex = field.compact.indexOf(token);
+  if (compactIndex >= 0) {
+    consider(0.8, compactRange(field, compactIndex, token.length));
+  }
+
+  const maxEdits = getMaxEdits(token);
+  if (best || maxEdits === 0) {
+    return best;
+  }
+
+  for (const word of field.words) {
+    // Compare against the word and against its prefix, so that typos in a
+    // partially typed word still match
+    const distance = Math.min(
+      editDistance(token, word.text),
+      editDistance(token, word.text.slice(0, token.length)),
+    );
+
+    if (distance <= maxEdits) {
+      consider(0.7 - distance * 0.1, [word.start, word.end]);
+    }
+  }
+
+  if (field.spanWords && !best) {
+    for (let start = 0; start < field.compact.length; start += 1) {
+      for (
+        let length = Math.max(1, token.length - maxEdits);
+        length <= token.length + maxEdits &&
+        start + length <= field.compact.length;
+        length += 1
+      ) {
+        const distance = editDistance(
+          token,
+          field.compact.slice(start, start + length),
+        );
+
+        if (distance <= maxEdits) {
+          consider(0.6 - distance * 0.1, compactRange(field, start, length));
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+function mergeRanges(ranges: HighlightRange[]) {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: HighlightRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+
+  return merged;
+}
+
+export function createSearchIndex<T>(
+  items: T[],
+  getFields: (item: T) => SearchFieldInput[],
+): SearchIndex<T> {
+  return items.map((item) => ({
+    item,
+    fields: getFields(item).map(indexField),
+  }));
+}
+
+/**
+ * Returns the items that match every token of the query, ranked by how well
+ * and in which fields they matched. Items with an equal score keep their
+ * original order. An empty query returns every item unranked.
+ */
+export function search<T>(
+  index: SearchIndex<T>,
+  query: string,
+): SearchResult<T>[] {
+  const tokens = tokenizeQuery(query);
+
+  if (tokens.length === 0) {
+    return index.map(({ item }) => ({ item, score: 0, highlights: {} }));
+  }
+
+  const results: SearchResult<T>[] = [];
+
+  for (const { item, fields } of index) {
+    let score = 0;
+    const highlights: SearchHighlights = {};
+    let matchesAll = true;
+
+    for (const token of tokens) {
+      let tokenScore = 0;
+
+      for (const field of fields) {
+        const match = matchToken(token, field);
+
+        if (match) {
+          tokenScore = Math.max(tokenScore, match.score * field.weight);
+          (highlights[field.key] ??= []).push(match.range);
+        }
+      }
+
+      if (tokenScore === 0) {
+        matchesAll = false;
+        break;
+      }
+
+      score += tokenScore;
+    }
+
+    if (matchesAll) {
+      for (const key of Object.keys(highlights)) {
+        highlights[key] = mergeRanges(highlights[key]);
+      }
+
+      results.push({ item, score, highlights });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,74 @@
+import { convertSpeed, type SpeedUnit } from "./vrti/speedRange";
+import { LB_PER_KG, type WeightUnit } from "./vrti/treadmills";
+
+/**
+ * The reader's unit system, shared by every page. It's stored in local
+ * storage and applied to `<html data-unit-system>` by an inline script in
+ * `CustomThemeProvider.astro` before the page renders, which lets static
+ * values like the `<Speed>` and `<Weight>` components switch through CSS.
+ */
+
+export const UNIT_SYSTEMS = ["metric", "imperial"] as const;
+
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: "Metric",
+  imperial: "Imperial",
+};
+
+export const SPEED_UNITS: Record<UnitSystem, SpeedUnit> = {
+  metric: "km/h",
+  imperial: "mph",
+};
+
+export const WEIGHT_UNITS: Record<UnitSystem, WeightUnit> = {
+  metric: "kg",
+  imperial: "lb",
+};
+
+// Keep in sync with the inline script in `CustomThemeProvider.astro`
+export const UNIT_SYSTEM_STORAGE_KEY = "unit-system";
+
+export const UNIT_SYSTEM_CHANGE_EVENT = "unit-system-change";
+
+export const parseUnitSystem = (value: unknown): UnitSystem | null =>
+  UNIT_SYSTEMS.find((system) => system === value) ?? null;
+
+// What the server renders, before the stored preference is known
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "metric";
+
+export const getUnitSystem = (): UnitSystem =>
+  parseUnitSystem(document.documentElement.dataset.unitSystem) ??
+  DEFAULT_UNIT_SYSTEM;
+
+/**
+ * Switches every unit on the page, without storing the choice. Used for
+ * changes made in another tab, which already stored it.
+ */
+export function applyUnitSystem(system: UnitSystem) {
+  document.documentElement.dataset.unitSystem = system;
+  window.dispatchEvent(new Event(UNIT_SYSTEM_CHANGE_EVENT));
+}
+
+export function setUnitSystem(system: UnitSystem) {
+  try {
+    window.localStorage.setItem(UNIT_SYSTEM_STORAGE_KEY, system);
+  } catch {
+    // Storage can be unavailable (e.g. private browsing); it still applies
+    // until the reader leaves the page
+  }
+
+  applyUnitSystem(system);
+}
+
+const formatValue = (value: number) => {
+  const rounded = Math.round(value * 10) / 10;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1);
+};
+
+export const formatSpeed = (kmh: number, system: UnitSystem) =>
+  `${formatValue(convertSpeed(kmh, "km/h", SPEED_UNITS[system]))} ${SPEED_UNITS[system]}`;
+
+export const formatWeight = (kg: number, system: UnitSystem) =>
+  `${formatValue(system === "imperial" ? kg * LB_PER_KG : kg)} ${WEIGHT_UNITS[system]}`;
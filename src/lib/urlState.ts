@@ -0,0 +1,22 @@
+/**
+ * Merges the given values into the current URL's query string without adding
+ * a history entry. `null` or empty values remove the parameter.
+ */
+export function replaceSearchParams(values: Record<string, string | null>) {
+  const url = new URL(window.location.href);
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null || value === "") {
+      url.searchParams.delete(key);
+    } else {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
+
+export const getListParam = (params: URLSearchParams, key: string) =>
+  params.get(key)?.split(",").filter(Boolean) ?? [];
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import {
+  ANIMATION_SPEED,
+  MAX_SPEED,
+  MIN_FINAL_SPEED,
+  OVERRIDE_PRESETS,
+  TEMP_OFFSET_AMOUNT,
+  computeAutoWalkSpeed,
+  getNextOverrideIndex,
+  snapMultiplier,
+  stepTreadmillSpeed,
+  type AutoWalkInput,
+  type AutoWalkSpeed,
+} from "./autoWalk";
+
+const input = (changes: Partial<AutoWalkInput>): AutoWalkInput => ({
+  speed: 5,
+  targetSpeed: 5,
+  multiplier: 1,
+  override: null,
+  tempOffset: 0,
+  ...changes,
+});
+
+describe("computeAutoWalkSpeed", () => {
+  it.each<{ name: string; input: AutoWalkInput; expected: AutoWalkSpeed }>([
+    {
+      name: "normalizes the treadmill speed against MAX_SPEED",
+      input: input({}),
+      expected: {
+        baseSpeed: 0.5,
+        postMultiplierSpeed: 0.5,
+        effectiveOffset: 0,
+        finalSpeed: 0.5,
+      },
+    },
+    {
+      name: "caps the base speed at 1 above MAX_SPEED",
+      input: input({ speed: MAX_SPEED * 1.5, targetSpeed: MAX_SPEED * 1.5 }),
+      expected: {
+        baseSpeed: 1,
+        postMultiplierSpeed: 1,
+        effectiveOffset: 0,
+        finalSpeed: 1,
+      },
+    },
+    {
+      name: "scales the base speed by the multiplier without an override",
+      input: input({ multiplier: 1.5 }),
+      expected: {
+        baseSpeed: 0.5,
+        postMultiplierSpeed: 0.75,
+        effectiveOffset: 0,
+        finalSpeed: 0.75,
+      },
+    },
+    {
+      name: "clamps the final speed to 1",
+      input: input({ speed: 8, targetSpeed: 8, multiplier: 2 }),
+      expected: {
+        baseSpeed: 0.8,
+        postMultiplierSpeed: 1.6,
+        effectiveOffset: 0,
+        finalSpeed: 1,
+      },
+    },
+    {
+      name: "replaces the speed with the override, ignoring the multiplier",
+      input: input({ speed: 2, targetSpeed: 2, multiplier: 2, override: 0.75 }),
+      expected: {
+        baseSpeed: 0.2,
+        postMultiplierSpeed: 0.75,
+        effectiveOffset: 0,
+        finalSpeed: 0.75,
+      },
+    },
+    {
+      name: "applies the override while the speed still eases up from below 0",
+      input: input({ speed: -1, targetSpeed: 3, override: 0.5 }),
+      expected: {
+        baseSpeed: -0.1,
+        postMultiplierSpeed: 0.5,
+        effectiveOffset: 0,
+        finalSpeed: 0.5,
+      },
+    },
+    {
+      name: "keeps a negative target speed below the override",
+      input: input({ speed: -2, targetSpeed: -2, override: 0.5 }),
+      expected: {
+        baseSpeed: -0.2,
+        postMultiplierSpeed: -0.2,
+        effectiveOffset: 0,
+        finalSpeed: 0,
+      },
+    },
+    {
+      name: "keeps the base speed while easing towards a negative target",
+      input: input({ speed: 1, targetSpeed: -2, override: 0.5 }),
+      expected: {
+        baseSpeed: 0.1,
+        postMultiplierSpeed: 0.1,
+        effectiveOffset: 0,
+        finalSpeed: 0.1,
+      },
+    },
+    {
+      name: "adds a Catch Up offset",
+      input: input({ tempOffset: TEMP_OFFSET_AMOUNT }),
+      expected: {
+        baseSpeed: 0.5,
+        postMultiplierSpeed: 0.5,
+        effectiveOffset: 0.25,
+        finalSpeed: 0.75,
+      },
+    },
+    {
+      name: "applies a Slow Down offset in full when it stays above the minimum",
+      input: input({ tempOffset: -TEMP_OFFSET_AMOUNT }),
+      expected: {
+        baseSpeed: 0.5,
+        postMultiplierSpeed: 0.5,
+        effectiveOffset: -0.25,
+        finalSpeed: 0.25,
+      },
+    },
+    {
+      name: "limits a Slow Down offset to reach the minimum speed",
+      input: input({
+        speed: 2,
+        targetSpeed: 2,
+        tempOffset: -TEMP_OFFSET_AMOUNT,
+      }),
+      expected: {
+        baseSpeed: 0.2,
+        postMultiplierSpeed: 0.2,
+        effectiveOffset: MIN_FINAL_SPEED - 0.2,
+        finalSpeed: MIN_FINAL_SPEED,
+      },
+    },
+    {
+      name: "ignores a Slow Down offset below the minimum speed",
+      input: input({
+        speed: 0.5,
+        targetSpeed: 0.5,
+        tempOffset: -TEMP_OFFSET_AMOUNT,
+      }),
+      expected: {
+        baseSpeed: 0.05,
+        postMultiplierSpeed: 0.05,
+        effectiveOffset: 0,
+        finalSpeed: 0.05,
+      },
+    },
+  ])("$name", ({ input, expected }) => {
+    const result = computeAutoWalkSpeed(input);
+
+    for (const key of Object.keys(expected) as (keyof AutoWalkSpeed)[]) {
+      expect(result[key], key).toBeCloseTo(expected[key]);
+    }
+  });
+});
+
+describe("snapMultiplier", () => {
+  it.each([
+    { value: 1, expected: 1 },
+    { value: 1.05, expected: 1 },
+    { value: 0.93, expected: 1 },
+    { value: 1.08, expected: 1.08 },
+    { value: 0.9, expected: 0.9 },
+    { value: 2, expected: 2 },
+  ])("snaps $value to $expected", ({ value, expected }) => {
+    expect(snapMultiplier(value)).toBe(expected);
+  });
+});
+
+describe("getNextOverrideIndex", () => {
+  it.each([
+    { index: -1, expected: 0 },
+    { index: 0, expected: 1 },
+    {
+      index: OVERRIDE_PRESETS.length - 2,
+      expected: OVERRIDE_PRESETS.length - 1,
+    },
+    { index: OVERRIDE_PRESETS.length - 1, expected: -1 },
+  ])("goes from $index to $expected", ({ index, expected }) => {
+    expect(getNextOverrideIndex(index)).toBe(expected);
+  });
+});
+
+describe("stepTreadmillSpeed", () => {
+  it.each([
+    {
+      name: "settles when close to the target",
+      current: 4.97,
+      target: 5,
+      expected: 5,
+    },
+    { name: "stays at the target", current: 5, target: 5, expected: 5 },
+    {
+      name: "eases up towards the target",
+      current: 3,
+      target: 5,
+      expected: 3 + 2 * ANIMATION_SPEED,
+    },
+    {
+      name: "eases down towards the target",
+      current: 5,
+      target: 1,
+      expected: 5 - 4 * ANIMATION_SPEED,
+    },
+  ])("$name", ({ current, target, expected }) => {
+    expect(stepTreadmillSpeed(current, target)).toBeCloseTo(expected);
+  });
+});
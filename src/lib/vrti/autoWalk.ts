@@ -0,0 +1,101 @@
+/**
+ * The Auto Walk speed pipeline, matching the VRTI backend. Speeds after the
+ * first step are fractions of the full in-game walk speed, from 0 to 1.
+ *
+ * 1. The treadmill speed is normalized against `MAX_SPEED`, capped at 1.
+ * 2. An active override preset replaces it, otherwise the multiplier scales
+ *    it. Overrides never speed up a treadmill whose target speed is negative.
+ * 3. A held Slow Down / Catch Up offset is added. Slowing down never pushes
+ *    the speed below `MIN_FINAL_SPEED`, and is ignored when it's already
+ *    below that.
+ * 4. The result is clamped to 0-1.
+ */
+
+// Treadmill speed that maps to the full walk speed, in km/h like every speed
+// VRTI works with internally
+export const MAX_SPEED = 10.0;
+
+export const MIN_FINAL_SPEED = 0.1;
+
+export const TEMP_OFFSET_AMOUNT = 0.25;
+
+export const MULTIPLIER_SNAP_THRESHOLD = 0.08;
+
+// Cycled through by the override button, in order
+export const OVERRIDE_PRESETS = [0.25, 0.5, 0.75, 1.0] as const;
+
+// Fraction of the remaining difference the displayed treadmill speed
+// covers per animation frame
+export const ANIMATION_SPEED = 0.01;
+
+const ANIMATION_SETTLE_DISTANCE = 0.05;
+
+export interface AutoWalkInput {
+  // Speed reported by the treadmill, in km/h
+  speed: number;
+  // Speed the treadmill was set to, in km/h. Decides whether an override
+  // applies, while `speed` may still be easing towards it.
+  targetSpeed: number;
+  multiplier: number;
+  // The active override preset, or `null` when overrides are off
+  override: number | null;
+  // Offset of the held Slow Down (negative) or Catch Up (positive) button
+  tempOffset: number;
+}
+
+export interface AutoWalkSpeed {
+  baseSpeed: number;
+  postMultiplierSpeed: number;
+  // The part of `tempOffset` that was applied
+  effectiveOffset: number;
+  finalSpeed: number;
+}
+
+export function computeAutoWalkSpeed({
+  speed,
+  targetSpeed,
+  multiplier,
+  override,
+  tempOffset,
+}: AutoWalkInput): AutoWalkSpeed {
+  const baseSpeed = Math.min(speed / MAX_SPEED, 1);
+  const postMultiplierSpeed =
+    override !== null
+      ? targetSpeed >= 0.0
+        ? override
+        : Math.min(baseSpeed, override)
+      : baseSpeed * multiplier;
+
+  const effectiveOffset =
+    tempOffset < 0
+      ? postMultiplierSpeed >= MIN_FINAL_SPEED
+        ? Math.max(tempOffset, MIN_FINAL_SPEED - postMultiplierSpeed)
+        : 0.0
+      : tempOffset;
+  const finalSpeed = Math.max(
+    0,
+    Math.min(1, postMultiplierSpeed + effectiveOffset),
+  );
+
+  return { baseSpeed, postMultiplierSpeed, effectiveOffset, finalSpeed };
+}
+
+// Snaps the multiplier to 1.0 when close, for easier precise adjustment
+export const snapMultiplier = (value: number) =>
+  Math.abs(value - 1.0) < MULTIPLIER_SNAP_THRESHOLD ? 1.0 : value;
+
+// Override preset index after pressing the override button, -1 being off
+export const getNextOverrideIndex = (index: number) =>
+  index >= OVERRIDE_PRESETS.length - 1 ? -1 : index + 1;
+
+export const getOverridePreset = (index: number): number | null =>
+  OVERRIDE_PRESETS[index] ?? null;
+
+// Moves the displayed treadmill speed one animation frame towards the target
+export const stepTreadmillSpeed = (current: number, target: number) => {
+  const diff = target - current;
+
+  return Math.abs(diff) < ANIMATION_SETTLE_DISTANCE
+    ? target
+    : current + diff * ANIMATION_SPEED;
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_DURATION,
+  parseScenario,
+  simulateScenario,
+} from "./autoWalkSimulation";
+
+describe("parseScenario", () => {
+  it.each([
+    {
+      name: "accepts events up to the end of the simulation",
+      script: `0s speed 3\n${MAX_DURATION}s speed 5`,
+      errors: [],
+    },
+    {
+      name: "accepts holds that end with the simulation",
+      script: `${MAX_DURATION - 2}s slow-down 2s`,
+      errors: [],
+    },
+    {
+      name: "reports events after the end of the simulation",
+      script: `0s speed 3\n${MAX_DURATION + 1}s speed 5`,
+      errors: [
+        { line: 2, message: `Events after ${MAX_DURATION}s aren't simulated` },
+      ],
+    },
+    {
+      name: "reports holds that end after the simulation",
+      script: `0s speed 3\n# Too long\n${MAX_DURATION - 1}s catch-up 2s`,
+      errors: [
+        {
+          line: 3,
+          message: `Holds must end by ${MAX_DURATION}s, the end of the simulation`,
+        },
+      ],
+    },
+  ])("$name", ({ script, errors }) => {
+    expect(parseScenario(script, "km/h").errors).toEqual(errors);
+  });
+
+  it("leaves out the events it reports", () => {
+    const { events } = parseScenario(
+      `0s speed 3\n${MAX_DURATION + 1}s speed 5`,
+      "km/h",
+    );
+
+    expect(events).toEqual([{ at: 0, type: "speed", value: 3 }]);
+    expect(simulateScenario(events).duration).toBeLessThan(MAX_DURATION);
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  ANIMATION_SPEED,
+  OVERRIDE_PRESETS,
+  TEMP_OFFSET_AMOUNT,
+  computeAutoWalkSpeed,
+  stepTreadmillSpeed,
+} from "./autoWalk";
+import { convertSpeed, type SpeedUnit } from "./speedRange";
+
+export type ScenarioEvent =
+  // `value` in km/h, whatever unit the script used
+  | { at: number; type: "speed"; value: number }
+  | { at: number; type: "multiplier"; value: number }
+  | { at: number; type: "override"; value: number | null }
+  | { at: number; type: "slowDown" | "catchUp"; duration: number };
+
+export interface ScenarioError {
+  // 1-based, as shown in the editor
+  line: number;
+  message: string;
+}
+
+export interface ParsedScenario {
+  events: ScenarioEvent[];
+  errors: ScenarioError[];
+}
+
+export interface SimulationSample {
+  time: number;
+  // In km/h
+  targetSpeed: number;
+  treadmillSpeed: number;
+  baseSpeed: number;
+  postMultiplierSpeed: number;
+  finalSpeed: number;
+  tempOffset: number;
+}
+
+export interface SimulationResult {
+  duration: number;
+  samples: SimulationSample[];
+  // Time ranges during which Slow Down or Catch Up is held
+  holds: { type: "slowDown" | "catchUp"; start: number; end: number }[];
+}
+
+// The displayed speed eases once per animation frame, like the calculator
+export const SIMULATION_FPS = 60;
+
+const SAMPLES_PER_SECOND = 20;
+const MIN_DURATION = 10;
+// Longest scenario that's simulated, in seconds
+export const MAX_DURATION = 120;
+// Time to keep simulating after the last event, so the speed can settle
+const TRAILING_TIME = 8;
+
+// Walking speeds of about 3 and 6 km/h in each unit
+const EXAMPLE_SPEEDS: Record<SpeedUnit, [number, number]> = {
+  "km/h": [3, 6],
+  mph: [2, 4],
+};
+
+export const getExampleScenario = (unit: SpeedUnit) => {
+  const [walk, fast] = EXAMPLE_SPEEDS[unit];
+
+  return `# Walk at ${walk} ${unit}, then speed up the treadmill
+0s speed ${walk}
+5s speed ${fast}
+# Hold Slow Down for 2 seconds
+12s slow-down 2s
+# Switch to the 50% override preset, and back off
+18s override 50%
+24s override off`;
+};
+
+const SPEED_UNIT_ALIASES: Record<string, SpeedUnit> = {
+  "km/h": "km/h",
+  kmh: "km/h",
+  kph: "km/h",
+  mph: "mph",
+};
+
+const COMMAND_ALIASES: Record<string, ScenarioEvent["type"]> = {
+  speed: "speed",
+  multiplier: "multiplier",
+  override: "override",
+  "slow-down": "slowDown",
+  slowdown: "slowDown",
+  "catch-up": "catchUp",
+  catchup: "catchUp",
+};
+
+const parseSeconds = (value: string | undefined) => {
+  const match = value?.match(/^(?:t=)?(\d+(?:\.\d+)?)s?$/i);
+  return match ? Number.parseFloat(match[1]) : null;
+};
+
+const parseOverride = (value: string | undefined) => {
+  if (value?.toLowerCase() === "off") {
+    return null;
+  }
+
+  const match = value?.match(/^(\d+(?:\.\d+)?)(%?)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const preset = Number.parseFloat(match[1]) / (match[2] ? 100 : 1);
+  return OVERRIDE_PRESETS.find((option) => option === preset);
+};
+
+// A speed like "6", in the default unit, or with a unit like "6km/h" or "4mph"
+const parseSpeed = (value: string | undefined, unit: SpeedUnit) => {
+  const match = value?.match(/^(-?\d+(?:\.\d+)?)([a-z/]*)$/i);
+  const speedUnit = match?.[2]
+    ? SPEED_UNIT_ALIASES[match[2].toLowerCase()]
+    : unit;
+
+  return match && speedUnit
+    ? convertSpeed(Number.parseFloat(match[1]), speedUnit, "km/h")
+    : null;
+};
+
+const getEventEnd = (event: ScenarioEvent) =>
+  event.type === "slowDown" || event.type === "catchUp"
+    ? event.at + event.duration
+    : event.at;
+
+// Events that would fall outside the chart are reported rather than cut off
+function checkDuration(event: ScenarioEvent) {
+  if (event.at > MAX_DURATION) {
+    return `Events after ${MAX_DURATION}s aren't simulated`;
+  }
+  if (getEventEnd(event) > MAX_DURATION) {
+    return `Holds must end by ${MAX_DURATION}s, the end of the simulation`;
+  }
+  return null;
+}
+
+function parseEvent(line: string, unit: SpeedUnit): ScenarioEvent | string {
+  const [time, command, argument, ...rest] = line.split(/\s+/);
+  const at = parseSeconds(time);
+  const type = COMMAND_ALIASES[command?.toLowerCase() ?? ""];
+
+  if (at === null) {
+    return `Expected a time like "5s", got "${time}"`;
+  }
+  if (!type) {
+    return `Unknown command "${command ?? ""}". Use speed, multiplier, override, slow-down or catch-up`;
+  }
+  // Speeds can name their unit after a space, like "6 mph"
+  const namesUnit =
+    type === "speed" &&
+    rest.length === 1 &&
+    rest[0].toLowerCase() in SPEED_UNIT_ALIASES;
+
+  if (rest.length > 0 && !namesUnit) {
+    return `Unexpected "${rest.join(" ")}"`;
+  }
+
+  if (type === "speed") {
+    const value = parseSpeed(
+      namesUnit ? `${argument}${rest[0]}` : argument,
+      unit,
+    );
+
+    if (value === null) {
+      return `Expected a speed like "5" or "5${unit}" after ${command}`;
+    }
+    return { at, type, value };
+  }
+
+  if (type === "multiplier") {
+    const value = Number.parseFloat(argument ?? "");
+
+    if (!Number.isFinite(value)) {
+      return `Expected a number after ${command}`;
+    }
+    if (value < 0 || value > 2) {
+      return "The multiplier must be between 0 and 2";
+    }
+    return { at, type, value };
+  }
+
+  if (type === "override") {
+    const value = parseOverride(argument);
+
+    if (value === undefined) {
+      return `Override must be ${OVERRIDE_PRESETS.map((preset) => `${preset * 100}%`).join(", ")} or off`;
+    }
+    return { at, type, value };
+  }
+
+  const duration = parseSeconds(argument);
+  if (duration === null || duration <= 0) {
+    return `Expected how long to hold ${command}, like "2s"`;
+  }
+  return { at, type, duration };
+}
+
+function parseLine(line: string, unit: SpeedUnit): ScenarioEvent | string {
+  const event = parseEvent(line, unit);
+  return typeof event === "string" ? event : (checkDuration(event) ?? event);
+}
+
+/**
+ * Parses a scenario script with one event per line, e.g. `5s speed 6` or
+ * `12s slow-down 2s`. Speeds are in `unit` unless they name one, like
+ * `5s speed 4mph`. Empty lines and `#` comments are skipped. Events are
+ * returned in chronological order; invalid lines, and events that don't fit
+ * in `MAX_DURATION`, are reported and left out.
+ */
+export function parseScenario(script: string, unit: SpeedUnit): ParsedScenario {
+  const events: ScenarioEvent[] = [];
+  const errors: ScenarioError[] = [];
+
+  script.split("\n").forEach((rawLine, idx) => {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) {
+      return;
+    }
+
+    const result = parseLine(line, unit);
+    if (typeof result === "string") {
+      errors.push({ line: idx + 1, message: result });
+    } else {
+      events.push(result);
+    }
+  });
+
+  return { events: events.sort((a, b) => a.at - b.at), errors };
+}
+
+/**
+ * Runs a scenario frame by frame. Speed changes ease in with the same
+ * per-frame easing as the calculator, except for those at 0s, which set the
+ * starting speed. When holds overlap, the one that started last wins.
+ */
+export function simulateScenario(events: ScenarioEvent[]): SimulationResult {
+  const lastEventEnd = Math.max(0, ...events.map(getEventEnd));
+  const duration = Math.min(
+    MAX_DURATION,
+    Math.max(MIN_DURATION, Math.ceil(lastEventEnd + TRAILING_TIME)),
+  );
+  const holds = events.flatMap((event) =>
+    event.type === "slowDown" || event.type === "catchUp"
+      ? [{ type: event.type, start: event.at, end: event.at + event.duration }]
+      : [],
+  );
+
+  const initialSpeed = events.find(
+    (event) => event.type === "speed" && event.at === 0,
+  );
+  let targetSpeed = initialSpeed?.type === "speed" ? initialSpeed.value : 0;
+  let treadmillSpeed = targetSpeed;
+  let multiplier = 1;
+  let override: number | null = null;
+  let nextEvent = 0;
+
+  const frameCount = duration * SIMULATION_FPS;
+  const framesPerSample = SIMULATION_FPS / SAMPLES_PER_SECOND;
+  const samples: SimulationSample[] = [];
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const time = frame / SIMULATION_FPS;
+
+    while (nextEvent < events.length && events[nextEvent].at <= time) {
+      const event = events[nextEvent++];
+
+      if (event.type === "speed") {
+        targetSpeed = event.value;
+      } else if (event.type === "multiplier") {
+        multiplier = event.value;
+      } else if (event.type === "override") {
+        override = event.value;
+      }
+    }
+
+    const activeHold = holds.findLast(
+      (hold) => hold.start <= time && time < hold.end,
+    );
+    const tempOffset = !activeHold
+      ? 0
+      : activeHold.type === "slowDown"
+        ? -TEMP_OFFSET_AMOUNT
+        : TEMP_OFFSET_AMOUNT;
+
+    if (frame % framesPerSample === 0) {
+      samples.push({
+        time,
+        targetSpeed,
+        treadmillSpeed,
+        tempOffset,
+        ...computeAutoWalkSpeed({
+          speed: treadmillSpeed,
+          targetSpeed,
+          multiplier,
+          override,
+          tempOffset,
+        }),
+      });
+    }
+
+    treadmillSpeed = stepTreadmillSpeed(treadmillSpeed, targetSpeed);
+  }
+
+  return { duration, samples, holds };
+}
+
+/**
+ * Seconds it takes the eased speed to cover `fraction` of a speed change,
+ * ignoring the final snap to the target.
+ */
+export const getEasingTime = (fraction = 0.95) =>
+  Math.log(1 - fraction) / Math.log(1 - ANIMATION_SPEED) / SIMULATION_FPS;
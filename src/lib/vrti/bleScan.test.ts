@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { parseBleScanDump, recommendDrivers } from "./bleScan";
+
+describe("parseBleScanDump", () => {
+  it.each([
+    {
+      name: "reduces full UUIDs on the Bluetooth base UUID",
+      text: "UUID: 0000fe00-0000-1000-8000-00805f9b34fb",
+      expected: ["FE00"],
+    },
+    {
+      name: "reads 0x-prefixed UUIDs",
+      text: "Unknown Service\nUUID: 0x1826",
+      expected: ["1826"],
+    },
+    {
+      name: "reads labelled lists of UUIDs",
+      text: "Advertised Services: 1826, FE00",
+      expected: ["1826", "FE00"],
+    },
+    {
+      name: "reads the UUID column of a CSV export",
+      text: "Handle,UUID,Name\n1234,FE00,Service\n2024,2ACD,Treadmill Data",
+      expected: ["2ACD", "FE00"],
+    },
+    {
+      name: "ignores four-digit numbers outside UUID positions",
+      text: "Service scanned in 2024\nHandle 1234\nservice 24e2 characteristic 2024",
+      expected: [],
+    },
+  ])("$name", ({ text, expected }) => {
+    expect(parseBleScanDump(text).uuids).toEqual(expected);
+  });
+});
+
+describe("recommendDrivers", () => {
+  const getConfidences = (text: string) =>
+    Object.fromEntries(
+      recommendDrivers(parseBleScanDump(text)).map((recommendation) => [
+        recommendation.driver,
+        recommendation.confidence,
+      ]),
+    );
+
+  it.each([
+    {
+      name: "caps a lone service UUID without characteristics at medium",
+      text: "UUID: 0x1234",
+      expected: { KINGSMITH_1234: "medium" },
+    },
+    {
+      name: "trusts a lone service UUID backed by the device name",
+      text: "PitPat-T01\nUUID: 0xFBA0",
+      expected: { PITPAT_FBA0: "high" },
+    },
+    {
+      name: "trusts a service backed by a characteristic",
+      text: "UUID: 0xFE00\nUUID: 0xFE01",
+      expected: { KINGSMITH_FE00: "high" },
+    },
+    {
+      name: "trusts two service UUIDs without characteristics",
+      text: "Advertised Services: 1826, 24E2",
+      expected: { FTMS_KINGSMITH_24E2: "high", FTMS: "low" },
+    },
+  ])("$name", ({ text, expected }) => {
+    expect(getConfidences(text)).toEqual(expected);
+  });
+});
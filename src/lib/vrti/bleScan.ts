@@ -0,0 +1,259 @@
+import { getDriverDisplayName } from "./treadmills";
+
+export type DriverConfidence = "high" | "medium" | "low";
+
+interface DriverSignature {
+  driver: string;
+  // 16-bit GATT service UUIDs that must all be present
+  services: string[];
+  // Characteristics that corroborate the service match, if known
+  characteristics: string[];
+  // Case-insensitive fragments of the advertised device name
+  names: string[];
+  // Generic drivers this one should be preferred over when both match
+  supersedes?: string[];
+}
+
+export interface ParsedScanDump {
+  uuids: string[];
+  text: string;
+}
+
+export interface DriverRecommendation {
+  driver: string;
+  label: string;
+  confidence: DriverConfidence;
+  evidence: string[];
+}
+
+const BLUETOOTH_BASE_UUID_SUFFIX = "-0000-1000-8000-00805f9b34fb";
+
+const DRIVER_SIGNATURES: DriverSignature[] = [
+  {
+    driver: "FTMS_KINGSMITH_24E2",
+    services: ["1826", "24E2"],
+    characteristics: [],
+    names: [],
+    supersedes: ["FTMS"],
+  },
+  {
+    driver: "FTMS",
+    services: ["1826"],
+    // Treadmill Data, Fitness Machine Control Point
+    characteristics: ["2ACD", "2AD9"],
+    names: [],
+  },
+  {
+    driver: "KINGSMITH_FE00",
+    services: ["FE00"],
+    characteristics: ["FE01", "FE02"],
+    names: ["WalkingPad"],
+  },
+  {
+    driver: "KINGSMITH_1234",
+    services: ["1234"],
+    characteristics: [],
+    names: [],
+  },
+  {
+    driver: "PITPAT_FBA0",
+    services: ["FBA0"],
+    characteristics: [],
+    names: ["PitPat"],
+  },
+  {
+    driver: "ESLINKER_YPOO",
+    services: [],
+    characteristics: [],
+    names: ["YPOO", "ESLinker"],
+  },
+];
+
+const CONFIDENCE_ORDER: Record<DriverConfidence, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+const normalizeFullUuid = (uuid: string) => {
+  const lower = uuid.toLowerCase();
+
+  if (lower.startsWith("0000") && lower.endsWith(BLUETOOTH_BASE_UUID_SUFFIX)) {
+    return lower.slice(4, 8).toUpperCase();
+  }
+
+  return lower.toUpperCase();
+};
+
+const SHORT_UUID = /^(?:0x)?([0-9a-f]{4})$/i;
+
+// Labelled values, like nRF Connect's "UUID: 0x1826" or LightBlue's
+// "Advertised Services: 1826, FE00"
+const LABELLED_UUIDS =
+  /\b(?:uuids?|advertised services|service uuids?)\s*[:=]\s*((?:(?:0x)?[0-9a-f]{4}\b[\s,;|]*)+)/gi;
+
+// CSV or tab-separated exports name their UUID columns like this
+const UUID_COLUMN =
+  /^"?(?:(?:service|characteristic|descriptor)\s+)?uuids?"?$/i;
+
+const addShortUuids = (uuids: Set<string>, cells: string) => {
+  for (const cell of cells.split(/[\s,;|"]+/)) {
+    const match = SHORT_UUID.exec(cell);
+    if (match) {
+      uuids.add(match[1].toUpperCase());
+    }
+  }
+};
+
+// Adds the 16-bit UUIDs in the UUID columns of a delimited export
+function addUuidColumns(uuids: Set<string>, lines: string[]) {
+  let delimiter: string | undefined;
+  let columns: number[] = [];
+
+  for (const line of lines) {
+    const headerDelimiter = [",", "\t", ";"].find((candidate) =>
+      line.split(candidate).some((cell) => UUID_COLUMN.test(cell.trim())),
+    );
+
+    if (headerDelimiter) {
+      delimiter = headerDelimiter;
+      columns = line
+        .split(headerDelimiter)
+        .flatMap((cell, index) =>
+          UUID_COLUMN.test(cell.trim()) ? [index] : [],
+        );
+      continue;
+    }
+
+    if (delimiter === undefined) {
+      continue;
+    }
+
+    const cells = line.split(delimiter);
+    for (const column of columns) {
+      addShortUuids(uuids, cells[column] ?? "");
+    }
+  }
+}
+
+/**
+ * Extracts GATT UUIDs from a pasted scanner export. 16-bit UUIDs are only
+ * taken from where a UUID is expected: full 128-bit UUIDs built on the
+ * Bluetooth base UUID, `0x`-prefixed values, values labelled as UUIDs (as
+ * nRF Connect and LightBlue show them) and the UUID columns of CSV exports.
+ * Other four-digit numbers, like handles or years, are ignored.
+ */
+export function parseBleScanDump(text: string): ParsedScanDump {
+  const uuids = new Set<string>();
+
+  for (const match of text.matchAll(
+    /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+  )) {
+    uuids.add(normalizeFullUuid(match[0]));
+  }
+
+  for (const match of text.matchAll(/\b0x([0-9a-f]{4})\b/gi)) {
+    uuids.add(match[1].toUpperCase());
+  }
+
+  for (const match of text.matchAll(LABELLED_UUIDS)) {
+    addShortUuids(uuids, match[1]);
+  }
+
+  addUuidColumns(uuids, text.split(/\r?\n/));
+
+  return { uuids: Array.from(uuids).sort(), text };
+}
+
+function matchSignature(
+  signature: DriverSignature,
+  { uuids, text }: ParsedScanDump,
+): DriverRecommendation | null {
+  const found = new Set(uuids);
+  const matchedServices = signature.services.filter((uuid) => found.has(uuid));
+  const matchedCharacteristics = signature.characteristics.filter((uuid) =>
+    found.has(uuid),
+  );
+  const matchedName = signature.names.find((name) =>
+    text.toLowerCase().includes(name.toLowerCase()),
+  );
+
+  const hasAllServices =
+    signature.services.length > 0 &&
+    matchedServices.length === signature.services.length;
+  const evidence = [
+    ...matchedServices.map((uuid) => `Service ${uuid}`),
+    ...matchedCharacteristics.map((uuid) => `Characteristic ${uuid}`),
+    ...(matchedName ? [`Device name contains "${matchedName}"`] : []),
+  ];
+
+  let confidence: DriverConfidence | null = null;
+
+  if (hasAllServices) {
+    // A single service UUID is easily matched by accident, so it needs a
+    // characteristic or the name to back it up
+    confidence =
+      matchedCharacteristics.length > 0 ||
+      matchedName ||
+      (signature.characteristics.length === 0 && matchedServices.length > 1)
+        ? "high"
+        : "medium";
+  } else if (matchedName && signature.services.length === 0) {
+    // The name is all we have to go on for drivers without a known service
+    confidence = "medium";
+  } else if (matchedServices.length > 0 || matchedName) {
+    confidence = "low";
+  }
+
+  if (!confidence) {
+    return null;
+  }
+
+  return {
+    driver: signature.driver,
+    label: getDriverDisplayName(signature.driver),
+    confidence,
+    evidence,
+  };
+}
+
+/**
+ * Ranks the VRTI drivers whose GATT signature appears in the scan, most
+ * likely first. When a specific driver matches with high confidence, the
+ * generic drivers it builds on are demoted to low confidence.
+ */
+export function recommendDrivers(scan: ParsedScanDump): DriverRecommendation[] {
+  const recommendations = DRIVER_SIGNATURES.map((signature) =>
+    matchSignature(signature, scan),
+  ).filter(
+    (recommendation): recommendation is DriverRecommendation =>
+      recommendation !== null,
+  );
+
+  for (const signature of DRIVER_SIGNATURES) {
+    const match = recommendations.find(
+      (recommendation) => recommendation.driver === signature.driver,
+    );
+
+    if (match?.confidence !== "high") {
+      continue;
+    }
+
+    for (const superseded of signature.supersedes ?? []) {
+      const generic = recommendations.find(
+        (recommendation) => recommendation.driver === superseded,
+      );
+
+      if (generic) {
+        generic.confidence = "low";
+        generic.evidence.push(`${match.label} is a closer match`);
+      }
+    }
+  }
+
+  return recommendations.sort(
+    (a, b) =>
+      CONFIDENCE_ORDER[a.confidence] - CONFIDENCE_ORDER[b.confidence] ||
+      b.evidence.length - a.evidence.length,
+  );
+}
@@ -0,0 +1,158 @@
+import type { AdapterStatus, BluetoothAdapter } from "./bluetoothAdapters";
+
+export type AdapterCheckStatus = AdapterStatus | "Unknown";
+
+export interface HardwareId {
+  // Uppercase hex, e.g. "2357"
+  vendorId: string;
+  productId: string;
+}
+
+export interface AdapterCheckResult {
+  hardwareId: HardwareId;
+  status: AdapterCheckStatus;
+  vendor?: string;
+  // Catalog entries with this hardware ID
+  matches: BluetoothAdapter[];
+  advice: string[];
+}
+
+// USB vendor IDs that commonly show up on Bluetooth adapters
+const USB_VENDORS: Record<string, string> = {
+  "0489": "Foxconn",
+  "04CA": "Lite-On",
+  "0A12": "Cambridge Silicon Radio",
+  "0A5C": "Broadcom",
+  "0B05": "ASUS",
+  "0BDA": "Realtek",
+  "0E8D": "MediaTek",
+  "13D3": "IMC Networks",
+  "2357": "TP-Link",
+  "8087": "Intel",
+};
+
+const HARDWARE_ID_PATTERN = /VID_([0-9A-F]{4})&PID_([0-9A-F]{4})/gi;
+
+export const formatHardwareId = ({ vendorId, productId }: HardwareId) =>
+  `${vendorId}:${productId}`;
+
+/**
+ * Extracts the USB vendor and product IDs from pasted Device Manager hardware
+ * IDs or `Get-PnpDevice` instance IDs, such as `USB\VID_2357&PID_0604&REV_0200`.
+ * Each pair is returned once, in the order it first appears.
+ */
+export function parseHardwareIds(text: string): HardwareId[] {
+  const ids = new Map<string, HardwareId>();
+
+  for (const [, vendorId, productId] of text.matchAll(HARDWARE_ID_PATTERN)) {
+    const id = {
+      vendorId: vendorId.toUpperCase(),
+      productId: productId.toUpperCase(),
+    };
+    ids.set(formatHardwareId(id), id);
+  }
+
+  return Array.from(ids.values());
+}
+
+const formatModels = (adapters: BluetoothAdapter[]) =>
+  new Intl.ListFormat("en").format(adapters.map((adapter) => adapter.model));
+
+/**
+ * Looks up a hardware ID in the adapter catalog. Unlisted adapters are
+ * reported as unknown, with the tested chipsets of the same vendor as a hint.
+ */
+export function checkHardwareId(
+  hardwareId: HardwareId,
+  adapters: BluetoothAdapter[],
+): AdapterCheckResult {
+  const key = formatHardwareId(hardwareId);
+  const vendor = USB_VENDORS[hardwareId.vendorId];
+  const matches = adapters.filter((adapter) =>
+    adapter.hardwareIds.includes(key),
+  );
+  const recommended = adapters.filter(
+    (adapter) => adapter.status === "Recommended",
+  );
+
+  if (matches.length > 0) {
+    const chipsets = Array.from(new Set(matches.map((item) => item.chipset)));
+    const recommendedMatches = matches.filter(
+      (adapter) => adapter.status === "Recommended",
+    );
+    const testedMatches = matches.filter(
+      (adapter) => adapter.status === "Tested",
+    );
+    const status = recommendedMatches.length > 0 ? "Recommended" : "Tested";
+
+    return {
+      hardwareId,
+      status,
+      vendor,
+      matches,
+      advice: [
+        ...(matches.length > 1
+          ? [
+              `The ${formatModels(matches)} share this hardware ID, so it can't tell them apart.`,
+            ]
+          : []),
+        status === "Tested"
+          ? `This adapter (${chipsets.join(", ")}) has been tested and works with VRTI.`
+          : testedMatches.length > 0
+            ? `The ${formatModels(recommendedMatches)} is recommended for VRTI, and the ${formatModels(testedMatches)} has been tested and works.`
+            : "This adapter is recommended for VRTI. You're good to go.",
+        ...(status === "Tested" && recommended.length > 0
+          ? [
+              `If you have connection issues, the ${formatModels(recommended)} is the most reliable option.`,
+            ]
+          : []),
+        ...matches.flatMap((adapter) => adapter.knownIssues),
+      ],
+    };
+  }
+
+  // Tested adapters with the same USB vendor ID, or with a chipset by the
+  // same vendor when it makes chips rather than adapters
+  const vendorModels = adapters.filter((adapter) =>
+    adapter.hardwareIds.some((id) => id.startsWith(`${hardwareId.vendorId}:`)),
+  );
+  const vendorChipsets = vendor
+    ? Array.from(
+        new Set(
+          adapters
+            .map((adapter) => adapter.chipset)
+            .filter((chipset) =>
+              chipset.toLowerCase().startsWith(vendor.toLowerCase()),
+            ),
+        ),
+      )
+    : [];
+  const vendorName = vendor ?? "the same vendor";
+
+  return {
+    hardwareId,
+    status: "Unknown",
+    vendor,
+    matches: [],
+    advice: [
+      "This adapter hasn't been tested yet. It will most likely still work, as long as it supports Bluetooth Low Energy (BLE).",
+      ...(vendorModels.length > 0
+        ? [
+            `It's made by ${vendorName}, whose ${formatModels(vendorModels)} ${vendorModels.length === 1 ? "has" : "have"} been tested.`,
+          ]
+        : vendorChipsets.length > 0
+          ? [
+              `It's made by ${vendorName}, whose ${vendorChipsets.join(", ")} chipset${vendorChipsets.length === 1 ? " has" : "s have"} been tested.`,
+            ]
+          : []),
+      ...(recommended.length > 0
+        ? [
+            `If you run into connection issues, the ${formatModels(recommended)} is the most reliable option.`,
+          ]
+        : []),
+    ],
+  };
+}
+
+export const checkHardwareIds = (text: string, adapters: BluetoothAdapter[]) =>
+  parseHardwareIds(text).map((id) => checkHardwareId(id, adapters));
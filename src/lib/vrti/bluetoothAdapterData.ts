@@ -0,0 +1,15 @@
+import { getCollection } from "astro:content";
+
+import { compareAdapters, type BluetoothAdapter } from "./bluetoothAdapters";
+
+/**
+ * Loads the adapter catalog from the `bluetoothAdapters` collection,
+ * recommended adapters first.
+ */
+export async function loadBluetoothAdapters(): Promise<BluetoothAdapter[]> {
+  const entries = await getCollection("bluetoothAdapters");
+
+  return entries
+    .map((entry) => ({ id: entry.id, ...entry.data }))
+    .sort(compareAdapters);
+}
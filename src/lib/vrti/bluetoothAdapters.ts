@@ -0,0 +1,56 @@
+import type { SearchFieldInput } from "../fuzzySearch";
+
+export const ADAPTER_STATUSES = ["Recommended", "Tested"] as const;
+
+export const ADAPTER_INTERFACES = ["USB", "Internal"] as const;
+
+export type AdapterStatus = (typeof ADAPTER_STATUSES)[number];
+
+export type AdapterInterface = (typeof ADAPTER_INTERFACES)[number];
+
+/**
+ * An entry of the `bluetoothAdapters` content collection, with the id of its
+ * file in `src/content/bluetoothAdapters/`.
+ */
+export interface BluetoothAdapter {
+  id: string;
+  model: string;
+  status: AdapterStatus;
+  chipset: string;
+  bluetoothVersion: string;
+  interface: AdapterInterface;
+  hardwareIds: string[];
+  knownIssues: string[];
+  driverNotes: string[];
+  testedVrtiVersions: string[];
+}
+
+// Recommended adapters first, then by model
+export const compareAdapters = (a: BluetoothAdapter, b: BluetoothAdapter) =>
+  ADAPTER_STATUSES.indexOf(a.status) - ADAPTER_STATUSES.indexOf(b.status) ||
+  a.model.localeCompare(b.model, undefined, { numeric: true });
+
+export const getAdapterStatusVariant = (status: AdapterStatus) =>
+  status === "Recommended" ? "success" : "default";
+
+export const hasAdapterNotes = (item: BluetoothAdapter) =>
+  item.knownIssues.length > 0 ||
+  item.driverNotes.length > 0 ||
+  item.testedVrtiVersions.length > 0;
+
+export const getAdapterSearchFields = (
+  item: BluetoothAdapter,
+): SearchFieldInput[] => [
+  { key: "model", text: item.model, weight: 3, spanWords: true },
+  { key: "chipset", text: item.chipset, weight: 2, spanWords: true },
+  ...item.knownIssues.map((issue, idx) => ({
+    key: `issue:${idx}`,
+    text: issue,
+    weight: 0.5,
+  })),
+  ...item.driverNotes.map((note, idx) => ({
+    key: `driver:${idx}`,
+    text: note,
+    weight: 0.5,
+  })),
+];
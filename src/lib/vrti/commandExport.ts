@@ -0,0 +1,149 @@
+import { createCommandMessage } from "./liveMirror";
+import { convertSpeed, type SpeedUnit } from "./speedRange";
+
+/**
+ * Turns the Auto Walk calculator's settings into commands for VRTI's
+ * WebSocket API and OSC addresses, following the payloads documented for each
+ * of them, and into the values to pass to VRTI's MCP tools.
+ */
+
+export const MCP_SERVER_URL = "http://localhost:47127/sse";
+
+// `/VRTI/Treadmill/Speed` maps 0 to this speed and 1 to the max speed
+// configured in VRTI
+const OSC_MIN_TREADMILL_SPEED: Record<SpeedUnit, number> = {
+  "km/h": 0.5,
+  mph: 0.3,
+};
+
+// `/VRTI/Walking/Speed` maps 0-1 to a 0x-2x multiplier
+const OSC_MAX_MULTIPLIER = 2;
+
+// Disables the override, for OSC and MCP, which don't accept `null`
+const OVERRIDE_OFF = -1;
+
+export interface ExportedSettings {
+  // In the unit shown by the calculator
+  targetSpeed: number;
+  unit: SpeedUnit;
+  multiplier: number;
+  override: number | null;
+}
+
+export interface OscMessage {
+  address: string;
+  type: "f" | "T" | "F";
+  value?: number;
+}
+
+const round = (value: number, decimals = 3) => Number(value.toFixed(decimals));
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// The WebSocket API and MCP server take speeds in km/h
+const getTargetSpeedKmh = ({ targetSpeed, unit }: ExportedSettings) =>
+  round(convertSpeed(targetSpeed, unit, "km/h"), 2);
+
+export function getWebSocketCommands(settings: ExportedSettings) {
+  return [
+    createCommandMessage("SetTargetSpeed", getTargetSpeedKmh(settings)),
+    createCommandMessage(
+      "SetAutoWalkSpeedMultiplier",
+      round(settings.multiplier),
+    ),
+    createCommandMessage(
+      "SetAutoWalkSpeedOverride",
+      settings.override === null ? null : round(settings.override),
+    ),
+  ];
+}
+
+/**
+ * OSC only sets the treadmill speed relative to the max speed configured in
+ * VRTI (`speedLimit`, in the calculator's unit). A target speed of 0 stops
+ * the treadmill instead.
+ */
+export function getOscMessages(
+  settings: ExportedSettings,
+  speedLimit: number,
+): OscMessage[] {
+  const minSpeed = OSC_MIN_TREADMILL_SPEED[settings.unit];
+
+  return [
+    settings.targetSpeed > 0
+      ? {
+          address: "/VRTI/Treadmill/Speed",
+          type: "f",
+          value: round(
+            clamp01(
+              (settings.targetSpeed - minSpeed) /
+                Math.max(speedLimit - minSpeed, Number.EPSILON),
+            ),
+          ),
+        }
+      : { address: "/VRTI/Treadmill/Enable", type: "F" },
+    {
+      address: "/VRTI/Walking/Speed",
+      type: "f",
+      value: round(clamp01(settings.multiplier / OSC_MAX_MULTIPLIER)),
+    },
+    {
+      address: "/VRTI/Walking/Override",
+      type: "f",
+      value:
+        settings.override === null ? OVERRIDE_OFF : round(settings.override),
+    },
+  ];
+}
+
+export interface McpToolValue {
+  tool: string;
+  value: number;
+  // What the value means, when it isn't obvious
+  note?: string;
+}
+
+/**
+ * The MCP tools that apply the settings, with the value for each. Their
+ * argument names aren't documented, so these aren't complete `tools/call`
+ * requests: MCP clients read the input schemas through `tools/list`.
+ */
+export function getMcpToolValues(settings: ExportedSettings): McpToolValue[] {
+  return [
+    {
+      tool: "vrti_set_target_speed",
+      value: getTargetSpeedKmh(settings),
+      note: "km/h",
+    },
+    { tool: "vrti_set_speed_multiplier", value: round(settings.multiplier) },
+    settings.override === null
+      ? { tool: "vrti_set_speed_override", value: OVERRIDE_OFF, note: "off" }
+      : { tool: "vrti_set_speed_override", value: round(settings.override) },
+  ];
+}
+
+export const formatWebSocketScript = (settings: ExportedSettings) =>
+  JSON.stringify(getWebSocketCommands(settings), null, 2);
+
+// One `oscsend` (liblo) command per message
+export const formatOscScript = (
+  settings: ExportedSettings,
+  speedLimit: number,
+) =>
+  [
+    "# Set this to the UDP port VRTI advertises over OSCQuery",
+    "VRTI_OSC_PORT=",
+    ...getOscMessages(settings, speedLimit).map(
+      ({ address, type, value }) =>
+        `oscsend localhost $VRTI_OSC_PORT ${address} ${type}${value === undefined ? "" : ` ${value}`}`,
+    ),
+  ].join("\n");
+
+// One tool per line, with the value to pass to it
+export const formatMcpScript = (settings: ExportedSettings) =>
+  getMcpToolValues(settings)
+    .map(
+      ({ tool, value, note }) =>
+        `${tool}: ${value}${note === undefined ? "" : ` (${note})`}`,
+    )
+    .join("\n");
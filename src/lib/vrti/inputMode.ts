@@ -0,0 +1,94 @@
+import { MAX_SPEED } from "./autoWalk";
+import { convertSpeed, type SpeedUnit } from "./speedRange";
+
+/**
+ * How the final auto walk speed reaches the game in each of VRTI's input
+ * modes, and how the game may reshape it before it turns into movement.
+ */
+
+export const INPUT_MODES = ["VRChatOSC", "XInput"] as const;
+
+export type InputMode = (typeof INPUT_MODES)[number];
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  VRChatOSC: "VRChat OSC",
+  XInput: "XInput",
+};
+
+// VRChat's forward/backward movement axis, from -1 to 1
+export const OSC_VERTICAL_ADDRESS = "/input/Vertical";
+
+// Thumbstick axes of an Xbox controller are signed 16-bit values
+export const XINPUT_AXIS_MAX = 32767;
+
+// The left thumbstick deadzone Microsoft recommends to XInput games
+export const XINPUT_LEFT_THUMB_DEADZONE = 7849;
+
+export interface GameResponse {
+  // Fraction of the axis the game ignores, from 0 to 1
+  deadzone: number;
+  // Whether the game stretches the rest of the axis to start at 0 again,
+  // instead of jumping straight to the deadzone's value past it
+  rescale: boolean;
+  // Exponent of the game's response curve, 1 being linear
+  exponent: number;
+}
+
+export const RESPONSE_CURVES = [
+  { exponent: 1, label: "Linear" },
+  { exponent: 1.5, label: "Soft" },
+  { exponent: 2, label: "Quadratic" },
+] as const;
+
+export const DEFAULT_GAME_RESPONSES: Record<InputMode, GameResponse> = {
+  VRChatOSC: { deadzone: 0, rescale: true, exponent: 1 },
+  XInput: {
+    deadzone: XINPUT_LEFT_THUMB_DEADZONE / XINPUT_AXIS_MAX,
+    rescale: true,
+    exponent: 1,
+  },
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// The float VRTI sends to `OSC_VERTICAL_ADDRESS`
+export const toOscValue = (finalSpeed: number) => clamp01(finalSpeed);
+
+// The virtual left thumbstick's Y axis, pushed forward
+export const toThumbstickY = (finalSpeed: number) =>
+  Math.round(clamp01(finalSpeed) * XINPUT_AXIS_MAX);
+
+/**
+ * The fraction of its full walk speed the game moves at for an axis value,
+ * after its deadzone and response curve.
+ */
+export function getPerceivedSpeed(axis: number, response: GameResponse) {
+  const value = clamp01(axis);
+
+  if (value <= response.deadzone) {
+    return 0;
+  }
+
+  const scaled = response.rescale
+    ? (value - response.deadzone) / (1 - response.deadzone)
+    : value;
+
+  return clamp01(scaled) ** response.exponent;
+}
+
+/**
+ * Lowest treadmill speed, in `unit`, that gets past the game's deadzone at
+ * the given multiplier, or `null` when the multiplier never does.
+ */
+export function getDeadzoneSpeed(
+  response: GameResponse,
+  multiplier: number,
+  unit: SpeedUnit,
+) {
+  if (multiplier <= 0) {
+    return null;
+  }
+
+  const speed = (response.deadzone * MAX_SPEED) / multiplier;
+  return speed <= MAX_SPEED ? convertSpeed(speed, "km/h", unit) : null;
+}
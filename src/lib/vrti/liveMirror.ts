@@ -0,0 +1,234 @@
+/**
+ * Client for the live mirror mode of the Auto Walk calculator, which follows
+ * a VRTI instance through its WebSocket API. See the WebSocket API docs under
+ * `src/content/docs/vrti/Developer/WebSocket API/` for the message formats.
+ */
+
+import type { InputMode } from "./inputMode";
+import type { SpeedRange } from "./speedRange";
+
+export const DEFAULT_VRTI_PORT = 47126;
+
+export const MIRRORED_EVENTS = [
+  "TreadmillStateUpdated",
+  "AutoWalkSettingsUpdated",
+  "AutoWalkSpeedUpdated",
+] as const;
+
+// Largest difference between the reported and computed final speed that
+// is still considered a match, to allow for rounding in VRTI
+export const SPEED_MISMATCH_TOLERANCE = 0.01;
+
+const RECONNECT_DELAYS_MS = [1_000, 2_000, 5_000, 10_000, 30_000];
+
+export interface TreadmillState {
+  connected: boolean;
+  running: boolean;
+  // In km/h, like all speeds reported by VRTI
+  currentSpeed: number;
+  targetSpeed: number;
+  userSpeedLimit: number;
+  deviceSpeedRange: SpeedRange;
+}
+
+export interface AutoWalkSettings {
+  enabled: boolean;
+  speedMultiplier: number;
+  inputMode: InputMode;
+  yawLock: boolean;
+  speedOverride: number | null;
+  speedOffset: number;
+}
+
+export type MirrorEvent =
+  | { event: "TreadmillStateUpdated"; payload: TreadmillState }
+  | { event: "AutoWalkSettingsUpdated"; payload: AutoWalkSettings }
+  | { event: "AutoWalkSpeedUpdated"; payload: { speed: number } };
+
+export type MirrorStatus =
+  | { state: "connecting"; attempt: number }
+  | { state: "connected" }
+  | { state: "waiting"; attempt: number; delay: number }
+  | { state: "closed" };
+
+export const getVrtiWebSocketUrl = (port = DEFAULT_VRTI_PORT) =>
+  `ws://localhost:${port}`;
+
+export const isValidPort = (port: number) =>
+  Number.isInteger(port) && port > 0 && port <= 65535;
+
+export interface CommandMessage {
+  command: string;
+  payload?: string;
+}
+
+// Payloads are always sent as JSON strings, see "Command Format"
+export const createCommandMessage = (
+  command: string,
+  payload?: unknown,
+): CommandMessage =>
+  payload === undefined
+    ? { command }
+    : { command, payload: JSON.stringify(payload) };
+
+export const createCommand = (command: string, payload?: unknown) =>
+  JSON.stringify(createCommandMessage(command, payload));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isSpeedRange = (value: unknown): value is SpeedRange =>
+  isRecord(value) &&
+  isNumber(value.min) &&
+  isNumber(value.max) &&
+  isNumber(value.step);
+
+const isTreadmillState = (value: unknown): value is TreadmillState =>
+  isRecord(value) &&
+  typeof value.connected === "boolean" &&
+  typeof value.running === "boolean" &&
+  isNumber(value.currentSpeed) &&
+  isNumber(value.targetSpeed) &&
+  isSpeedRange(value.deviceSpeedRange);
+
+const isAutoWalkSettings = (value: unknown): value is AutoWalkSettings =>
+  isRecord(value) &&
+  typeof value.enabled === "boolean" &&
+  isNumber(value.speedMultiplier) &&
+  (value.speedOverride === null || isNumber(value.speedOverride)) &&
+  isNumber(value.speedOffset);
+
+const parseJson = (text: unknown): unknown => {
+  if (typeof text !== "string") {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Parses a message received from VRTI. Returns `null` for events the mirror
+ * doesn't use and for messages that don't match the documented payloads.
+ */
+export function parseMirrorEvent(data: unknown): MirrorEvent | null {
+  const message = parseJson(data);
+  if (!isRecord(message)) {
+    return null;
+  }
+
+  const payload = parseJson(message.payload);
+
+  switch (message.event) {
+    case "TreadmillStateUpdated":
+      return isTreadmillState(payload)
+        ? { event: message.event, payload }
+        : null;
+    case "AutoWalkSettingsUpdated":
+      return isAutoWalkSettings(payload)
+        ? { event: message.event, payload }
+        : null;
+    case "AutoWalkSpeedUpdated":
+      return isRecord(payload) && isNumber(payload.speed)
+        ? { event: message.event, payload: { speed: payload.speed } }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export const getReconnectDelay = (attempt: number) =>
+  RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+
+export const isSpeedMismatch = (reported: number, computed: number) =>
+  Math.abs(reported - computed) > SPEED_MISMATCH_TOLERANCE;
+
+export interface MirrorConnectionOptions {
+  url: string;
+  onEvent: (event: MirrorEvent) => void;
+  onStatus: (status: MirrorStatus) => void;
+}
+
+/**
+ * Connects to VRTI, subscribes to the mirrored events and requests the
+ * current state. Lost or failed connections are retried with an increasing
+ * delay until `close()` is called.
+ */
+export function connectMirror({
+  url,
+  onEvent,
+  onStatus,
+}: MirrorConnectionOptions) {
+  let socket: WebSocket | undefined;
+  let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let closed = false;
+
+  const connect = () => {
+    onStatus({ state: "connecting", attempt });
+
+    let current: WebSocket;
+    try {
+      current = new WebSocket(url);
+    } catch {
+      scheduleRetry();
+      return;
+    }
+    socket = current;
+
+    current.addEventListener("open", () => {
+      attempt = 0;
+      onStatus({ state: "connected" });
+      current.send(createCommand("EventSubscribe", MIRRORED_EVENTS));
+      current.send(createCommand("GetTreadmillState"));
+      current.send(createCommand("GetAutoWalkSettings"));
+    });
+
+    current.addEventListener("message", (message) => {
+      const event = parseMirrorEvent(message.data);
+      if (event) {
+        onEvent(event);
+      }
+    });
+
+    // Not every implementation follows a failed connection's "error" with a
+    // "close", so both end the connection, but only the first one counts
+    const handleLost = () => {
+      if (socket !== current) {
+        return;
+      }
+
+      socket = undefined;
+      if (!closed) {
+        scheduleRetry();
+      }
+    };
+    current.addEventListener("error", handleLost);
+    current.addEventListener("close", handleLost);
+  };
+
+  const scheduleRetry = () => {
+    const delay = getReconnectDelay(attempt);
+    onStatus({ state: "waiting", attempt, delay });
+    attempt++;
+    retryTimeout = setTimeout(connect, delay);
+  };
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(retryTimeout);
+      socket?.close();
+      socket = undefined;
+      onStatus({ state: "closed" });
+    },
+  };
+}
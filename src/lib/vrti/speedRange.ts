@@ -0,0 +1,187 @@
+import { MAX_SPEED, OVERRIDE_PRESETS, computeAutoWalkSpeed } from "./autoWalk";
+
+export type SpeedUnit = "km/h" | "mph";
+
+export const KMH_PER_MPH = 1.609344;
+
+/**
+ * The speeds a treadmill can run at, like the `deviceSpeedRange` VRTI reports
+ * in `TreadmillStateUpdated`. Treadmills only accept speeds in increments of
+ * `step`, starting from `min`.
+ */
+export interface SpeedRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Keeps converted and snapped speeds free of floating point noise
+const roundSpeed = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export const convertSpeed = (value: number, from: SpeedUnit, to: SpeedUnit) =>
+  from === to
+    ? value
+    : roundSpeed(from === "km/h" ? value / KMH_PER_MPH : value * KMH_PER_MPH);
+
+// `MAX_SPEED` in the given unit
+const getMaxSpeed = (unit: SpeedUnit) => convertSpeed(MAX_SPEED, "km/h", unit);
+
+const DEFAULT_STEP = 0.5;
+
+/**
+ * Used when no treadmill is selected, matching the calculator's original
+ * slider: steps of 0.5 up to the first one at full walk speed.
+ */
+export const getDefaultSpeedRange = (unit: SpeedUnit): SpeedRange => ({
+  min: 0,
+  max: Math.ceil(getMaxSpeed(unit) / DEFAULT_STEP) * DEFAULT_STEP,
+  step: DEFAULT_STEP,
+});
+
+export const convertSpeedRange = (
+  range: SpeedRange,
+  from: SpeedUnit,
+  to: SpeedUnit,
+): SpeedRange => ({
+  min: convertSpeed(range.min, from, to),
+  max: convertSpeed(range.max, from, to),
+  step: convertSpeed(range.step, from, to),
+});
+
+/**
+ * Returns why a manually entered range can't be used, or `null` if it's valid.
+ */
+export function validateSpeedRange({ min, max, step }: SpeedRange) {
+  if (![min, max, step].every(Number.isFinite)) {
+    return "Enter a minimum speed, maximum speed and step";
+  }
+  if (min < 0) {
+    return "The minimum speed can't be negative";
+  }
+  if (max <= min) {
+    return "The maximum speed must be above the minimum speed";
+  }
+  if (step <= 0) {
+    return "The step must be above 0";
+  }
+  if (step > max - min) {
+    return "The step can't be larger than the speed range";
+  }
+  return null;
+}
+
+// Number of steps above `min` that still fit below `max`
+const getStepCount = ({ min, max, step }: SpeedRange) =>
+  Math.floor(roundSpeed((max - min) / step));
+
+// The highest speed on the step grid, which is below `max` when the range
+// isn't a whole number of steps
+export const getTopSpeed = (range: SpeedRange) =>
+  roundSpeed(range.min + getStepCount(range) * range.step);
+
+/**
+ * Snaps a speed to the nearest one the treadmill can run at.
+ */
+export function quantizeSpeed(speed: number, range: SpeedRange) {
+  const steps = Math.round((speed - range.min) / range.step);
+
+  return roundSpeed(
+    range.min + Math.min(Math.max(steps, 0), getStepCount(range)) * range.step,
+  );
+}
+
+const getWalkSpeed = (speed: number, multiplier: number, unit: SpeedUnit) => {
+  const speedKmh = convertSpeed(speed, unit, "km/h");
+
+  return computeAutoWalkSpeed({
+    speed: speedKmh,
+    targetSpeed: speedKmh,
+    multiplier,
+    override: null,
+    tempOffset: 0,
+  }).finalSpeed;
+};
+
+export interface SpeedRangeEffect {
+  // Walk speeds at the lowest and highest treadmill speed
+  minWalkSpeed: number;
+  maxWalkSpeed: number;
+  // How much a single treadmill step changes the walk speed
+  walkSpeedPerStep: number;
+  // Treadmill speed at which the walk speed reaches 100%, or `null` when the
+  // treadmill can't go that fast
+  fullWalkSpeedAt: number | null;
+}
+
+/**
+ * Describes how the treadmill's range and step limit the walk speed at the
+ * given multiplier, without overrides or held offsets. `range` is in `unit`.
+ */
+export function getSpeedRangeEffect(
+  range: SpeedRange,
+  multiplier: number,
+  unit: SpeedUnit,
+): SpeedRangeEffect {
+  const maxSpeed = getMaxSpeed(unit);
+  // Rounded up, as the step below would fall short of the full walk speed
+  const fullSpeedSteps =
+    multiplier > 0
+      ? Math.max(
+          Math.ceil(
+            roundSpeed((maxSpeed / multiplier - range.min) / range.step),
+          ),
+          0,
+        )
+      : Infinity;
+
+  return {
+    minWalkSpeed: getWalkSpeed(range.min, multiplier, unit),
+    maxWalkSpeed: getWalkSpeed(getTopSpeed(range), multiplier, unit),
+    walkSpeedPerStep: Math.min((range.step / maxSpeed) * multiplier, 1),
+    fullWalkSpeedAt:
+      fullSpeedSteps <= getStepCount(range)
+        ? roundSpeed(range.min + fullSpeedSteps * range.step)
+        : null,
+  };
+}
+
+export interface OverridePresetReach {
+  preset: number;
+  // Treadmill speed that comes closest to the preset's walk speed
+  speed: number;
+  walkSpeed: number;
+  // Whether the preset lies within the treadmill's range, so `speed` is at
+  // most half a step off
+  reachable: boolean;
+}
+
+/**
+ * For each override preset, finds the treadmill speed that gets closest to
+ * the same walk speed without the override. Presets the treadmill can't get
+ * close to are only reachable by switching the override on. `range` is in
+ * `unit`.
+ */
+export function getOverridePresetReach(
+  range: SpeedRange,
+  multiplier: number,
+  unit: SpeedUnit,
+): OverridePresetReach[] {
+  const maxSpeed = getMaxSpeed(unit);
+  const tolerance = (range.step / maxSpeed) * multiplier;
+
+  return OVERRIDE_PRESETS.map((preset) => {
+    const speed =
+      multiplier > 0
+        ? quantizeSpeed((preset * maxSpeed) / multiplier, range)
+        : range.min;
+    const walkSpeed = getWalkSpeed(speed, multiplier, unit);
+
+    return {
+      preset,
+      speed,
+      walkSpeed,
+      reachable:
+        multiplier > 0 && Math.abs(walkSpeed - preset) <= tolerance / 2 + 1e-9,
+    };
+  });
+}
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MAX_CLAIM_ATTEMPTS,
+  claimSteamKey,
+  getMockClaimEndpoint,
+  isClaimScenario,
+  type ClaimOptions,
+  type ClaimRequest,
+  type ClaimResult,
+  type ClaimRetry,
+  type ClaimScenario,
+} from "./steamKeyClaim";
+import { getMockClaimResponse } from "./steamKeyClaimMock";
+
+const REQUEST: ClaimRequest = {
+  licenseKey: "38b1460a-5104-4067-a91d-77b872934d51",
+  email: "name@example.com",
+};
+
+// Answers like the stand-in route, without starting a server
+const fetchFromStandIn = vi.fn(
+  async (input: RequestInfo | URL, init?: RequestInit) => {
+    const scenario = new URL(
+      String(input),
+      "http://localhost",
+    ).searchParams.get("scenario");
+    if (!isClaimScenario(scenario)) {
+      throw new Error(`Unknown scenario "${scenario}"`);
+    }
+
+    const response = getMockClaimResponse(
+      JSON.parse(String(init?.body)),
+      scenario,
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(resolve, response.delayMs);
+      init?.signal?.addEventListener("abort", () => {
+        clearTimeout(timeout);
+        reject(new DOMException("The request was aborted", "AbortError"));
+      });
+    });
+
+    return typeof response.body === "string"
+      ? new Response(response.body, {
+          status: response.status,
+          headers: { "Content-Type": "text/html; charset=utf-8" },
+        })
+      : Response.json(response.body, { status: response.status });
+  },
+);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("fetch", fetchFromStandIn);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  fetchFromStandIn.mockClear();
+});
+
+async function claim(
+  scenario: ClaimScenario,
+  options: Omit<ClaimOptions, "endpoint"> = {},
+  request = REQUEST,
+) {
+  const result = claimSteamKey(request, {
+    endpoint: getMockClaimEndpoint(scenario),
+    ...options,
+  });
+  await vi.runAllTimersAsync();
+  return result;
+}
+
+describe("claimSteamKey", () => {
+  it.each<{ name: string; scenario: ClaimScenario; expected: ClaimResult }>([
+    {
+      name: "returns a new Steam key",
+      scenario: "success",
+      expected: {
+        type: "success",
+        response: expect.objectContaining({ alreadyClaimed: false }),
+      },
+    },
+    {
+      name: "returns the error of a rejected claim",
+      scenario: "invalidLicenseKey",
+      expected: {
+        type: "error",
+        status: 401,
+        payload: { error: "Invalid or inactive license key" },
+      },
+    },
+    {
+      name: "returns an HTML error page as unparseable",
+      scenario: "badGateway",
+      expected: { type: "unparseable", status: 502 },
+    },
+    {
+      name: "returns an empty error response without a payload",
+      scenario: "emptyResponse",
+      expected: { type: "error", status: 404, payload: null },
+    },
+  ])("$name without retrying", async ({ scenario, expected }) => {
+    const onRetry = vi.fn();
+
+    expect(await claim(scenario, { onRetry })).toEqual(expected);
+    expect(fetchFromStandIn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it("returns the validation errors of an invalid request", async () => {
+    expect(
+      await claim("success", {}, { ...REQUEST, licenseKey: "not-a-key" }),
+    ).toEqual({
+      type: "error",
+      status: 400,
+      payload: {
+        error: "Invalid request",
+        message: "licenseKey: Invalid uuid",
+      },
+    });
+  });
+
+  it.each<{ scenario: ClaimScenario; expected: ClaimResult }>([
+    {
+      scenario: "validationUnavailable",
+      expected: {
+        type: "error",
+        status: 503,
+        payload: { error: "Purchase validation service unavailable" },
+      },
+    },
+    { scenario: "slowResponse", expected: { type: "timeout" } },
+  ])("retries $scenario before giving up", async ({ scenario, expected }) => {
+    const retries: ClaimRetry[] = [];
+
+    expect(
+      await claim(scenario, { onRetry: (retry) => retries.push(retry) }),
+    ).toEqual(expected);
+    expect(fetchFromStandIn).toHaveBeenCalledTimes(MAX_CLAIM_ATTEMPTS);
+    expect(retries.map(({ attempt }) => attempt)).toEqual([2, 3, 4]);
+    expect(retries.map(({ reason }) => reason)).toEqual(
+      Array(MAX_CLAIM_ATTEMPTS - 1).fill(expected),
+    );
+  });
+
+  it("retries network errors", async () => {
+    fetchFromStandIn.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const onRetry = vi.fn();
+
+    expect(await claim("success", { onRetry })).toMatchObject({
+      type: "success",
+    });
+    expect(fetchFromStandIn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2, reason: { type: "network" } }),
+    );
+  });
+
+  it("succeeds once the service is back", async () => {
+    const onRetry = vi.fn();
+
+    expect(await claim("recoversAfterOutage", { onRetry })).toMatchObject({
+      type: "success",
+    });
+    expect(fetchFromStandIn).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it("is cancelled while waiting to retry", async () => {
+    const controller = new AbortController();
+
+    expect(
+      await claim("validationUnavailable", {
+        signal: controller.signal,
+        onRetry: () => controller.abort(),
+      }),
+    ).toEqual({ type: "cancelled" });
+    expect(fetchFromStandIn).toHaveBeenCalledTimes(1);
+  });
+
+  it("is cancelled during a request", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    expect(await claim("success", { signal: controller.signal })).toEqual({
+      type: "cancelled",
+    });
+  });
+
+  it("is cancelled without a request when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await claim("success", { signal: controller.signal })).toEqual({
+      type: "cancelled",
+    });
+    expect(fetchFromStandIn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Client for the Steam key claim API, and its contract shared with the local
+ * stand-in for it at `/api/vrti/steam/claim`, which is only served in
+ * development.
+ */
+
+export const CLAIM_ENDPOINT = "https://api.raphii.co/vrti/steam/claim";
+
+export const MOCK_CLAIM_ENDPOINT = "/api/vrti/steam/claim";
+
+// Exactly one of `email` and `orderId` is sent
+export interface ClaimRequest {
+  licenseKey: string;
+  email?: string;
+  orderId?: string;
+}
+
+export interface ClaimSuccessResponse {
+  steamKey: string;
+  // Unix timestamp, in seconds
+  claimedAt: number;
+  alreadyClaimed: boolean;
+}
+
+export interface ClaimErrorResponse {
+  error?: string;
+  message?: string;
+}
+
+export const CLAIM_SCENARIOS = [
+  "success",
+  "alreadyClaimed",
+  "badRequest",
+  "badRequestWithoutMessage",
+  "invalidLicenseKey",
+  "purchaseMismatch",
+  "outOfKeys",
+  "serviceNotInitialized",
+  "validationUnavailable",
+  "serviceUnavailable",
+  "serverError",
+  "rateLimited",
+  "recoversAfterOutage",
+  "badGateway",
+  "emptyResponse",
+  "slowResponse",
+] as const;
+
+export type ClaimScenario = (typeof CLAIM_SCENARIOS)[number];
+
+export const CLAIM_SCENARIO_LABELS: Record<ClaimScenario, string> = {
+  success: "Success",
+  alreadyClaimed: "Already claimed",
+  badRequest: "400 Bad request",
+  badRequestWithoutMessage: "400 Bad request, no message",
+  invalidLicenseKey: "401 Invalid license key",
+  purchaseMismatch: "403 Purchase mismatch",
+  outOfKeys: "409 Out of keys",
+  serviceNotInitialized: "503 Service not initialized",
+  validationUnavailable: "503 Validation unavailable",
+  serviceUnavailable: "503 Unknown error",
+  serverError: "500 Server error",
+  rateLimited: "429 Rate limited",
+  recoversAfterOutage: "503 twice, then success",
+  badGateway: "502 HTML error page",
+  emptyResponse: "404 Empty response",
+  slowResponse: "No response (times out)",
+};
+
+export const isClaimScenario = (value: unknown): value is ClaimScenario =>
+  CLAIM_SCENARIOS.some((scenario) => scenario === value);
+
+export const getMockClaimEndpoint = (scenario: ClaimScenario) =>
+  `${MOCK_CLAIM_ENDPOINT}?${new URLSearchParams({ scenario })}`;
+
+// Per attempt, after which the request is aborted
+export const CLAIM_TIMEOUT_MS = 15_000;
+
+// Waits before each automatic retry. Claims are safe to repeat, as a claimed
+// license key always gets the same Steam key back.
+const CLAIM_RETRY_DELAYS_MS = [2_000, 5_000, 10_000];
+
+export const MAX_CLAIM_ATTEMPTS = CLAIM_RETRY_DELAYS_MS.length + 1;
+
+export type ClaimResult =
+  | { type: "success"; response: ClaimSuccessResponse }
+  // The API rejected the claim, `payload` is `null` for an empty body
+  | { type: "error"; status: number; payload: ClaimErrorResponse | null }
+  // The body wasn't what the API sends, like an HTML error page from a proxy
+  | { type: "unparseable"; status: number }
+  | { type: "timeout" }
+  | { type: "network" }
+  | { type: "cancelled" };
+
+export interface ClaimRetry {
+  // The attempt that's coming up, starting at 2
+  attempt: number;
+  // `Date.now()` at which it's sent
+  retryAt: number;
+  // Why the previous attempt failed
+  reason: ClaimResult;
+}
+
+export interface ClaimOptions {
+  endpoint?: string;
+  signal?: AbortSignal;
+  onRetry?: (retry: ClaimRetry) => void;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isSuccessResponse = (value: unknown): value is ClaimSuccessResponse =>
+  isObject(value) &&
+  typeof value.steamKey === "string" &&
+  typeof value.claimedAt === "number" &&
+  typeof value.alreadyClaimed === "boolean";
+
+const isErrorResponse = (value: unknown): value is ClaimErrorResponse =>
+  isObject(value) &&
+  ["error", "message"].every(
+    (key) => value[key] === undefined || typeof value[key] === "string",
+  );
+
+// The service is expected back soon after these
+export const isRetryableClaimResult = (result: ClaimResult) =>
+  result.type === "timeout" ||
+  result.type === "network" ||
+  ((result.type === "error" || result.type === "unparseable") &&
+    result.status === 503);
+
+function parseClaimResponse(
+  status: number,
+  ok: boolean,
+  text: string,
+): ClaimResult {
+  let body: unknown = null;
+
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return { type: "unparseable", status };
+    }
+  }
+
+  if (ok) {
+    return isSuccessResponse(body)
+      ? { type: "success", response: body }
+      : { type: "unparseable", status };
+  }
+
+  return body === null || isErrorResponse(body)
+    ? { type: "error", status, payload: body }
+    : { type: "unparseable", status };
+}
+
+async function sendClaimRequest(
+  endpoint: string,
+  request: ClaimRequest,
+  signal?: AbortSignal,
+): Promise<ClaimResult> {
+  // An aborted signal never fires "abort" again
+  if (signal?.aborted) {
+    return { type: "cancelled" };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, CLAIM_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+    const text = await response.text();
+
+    return parseClaimResponse(response.status, response.ok, text);
+  } catch {
+    return signal?.aborted
+      ? { type: "cancelled" }
+      : timedOut
+        ? { type: "timeout" }
+        : { type: "network" };
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timeout = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+/**
+ * Claims a Steam key, retrying with backoff while the service is unavailable
+ * or can't be reached. Never throws: every outcome, including cancellation
+ * through `signal`, is returned as a `ClaimResult`.
+ */
+export async function claimSteamKey(
+  request: ClaimRequest,
+  { endpoint = CLAIM_ENDPOINT, signal, onRetry }: ClaimOptions = {},
+): Promise<ClaimResult> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await sendClaimRequest(endpoint, request, signal);
+    const delay = CLAIM_RETRY_DELAYS_MS[attempt - 1];
+
+    if (!isRetryableClaimResult(result) || delay === undefined) {
+      return result;
+    }
+
+    onRetry?.({
+      attempt: attempt + 1,
+      retryAt: Date.now() + delay,
+      reason: result,
+    });
+    await wait(delay, signal);
+
+    if (signal?.aborted) {
+      return { type: "cancelled" };
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { z } from "astro/zod";
+
+import {
+  CLAIM_TIMEOUT_MS,
+  type ClaimErrorResponse,
+  type ClaimScenario,
+  type ClaimSuccessResponse,
+} from "./steamKeyClaim";
+
+// Long enough to see the form's pending state
+const MOCK_CLAIM_DELAY_MS = 600;
+
+// Failed attempts before `recoversAfterOutage` succeeds
+const OUTAGE_ATTEMPTS = 2;
+
+const MOCK_STEAM_KEY = "AAAAA-BBBBB-CCCCC";
+
+const ALREADY_CLAIMED_AGO_S = 3 * 24 * 60 * 60;
+
+const requestSchema = z.union([
+  z.object({
+    licenseKey: z.string().uuid(),
+    email: z.string().trim().email(),
+    orderId: z.undefined(),
+  }),
+  z.object({
+    licenseKey: z.string().uuid(),
+    email: z.undefined(),
+    orderId: z.string().regex(/^\d+$/, "Must be numeric"),
+  }),
+]);
+
+interface MockClaimResponse {
+  status: number;
+  // Sent as JSON, or as HTML when it's a string, which may be empty
+  body: ClaimSuccessResponse | ClaimErrorResponse | string;
+  // How long to wait before answering
+  delayMs: number;
+}
+
+const SCENARIO_ERRORS: Record<
+  Exclude<
+    ClaimScenario,
+    "success" | "alreadyClaimed" | "recoversAfterOutage" | "slowResponse"
+  >,
+  Omit<MockClaimResponse, "delayMs">
+> = {
+  badRequest: {
+    status: 400,
+    body: { error: "Invalid request", message: "licenseKey: Invalid uuid" },
+  },
+  badRequestWithoutMessage: { status: 400, body: { error: "Invalid request" } },
+  invalidLicenseKey: {
+    status: 401,
+    body: { error: "Invalid or inactive license key" },
+  },
+  purchaseMismatch: {
+    status: 403,
+    body: { error: "Purchase details do not match license key" },
+  },
+  outOfKeys: { status: 409, body: { error: "No Steam keys available" } },
+  serviceNotInitialized: {
+    status: 503,
+    body: { error: "Steam key claim service not initialized" },
+  },
+  validationUnavailable: {
+    status: 503,
+    body: { error: "Purchase validation service unavailable" },
+  },
+  // An outage the form has no specific message for
+  serviceUnavailable: { status: 503, body: { error: "Service unavailable" } },
+  serverError: { status: 500, body: { error: "Internal server error" } },
+  rateLimited: { status: 429, body: { error: "Too many claim attempts" } },
+  // Like the error pages of a proxy or CDN in front of the API
+  badGateway: {
+    status: 502,
+    body: "<html><head><title>502 Bad Gateway</title></head><body><h1>502 Bad Gateway</h1></body></html>",
+  },
+  // Like a route the API doesn't have, answered without a body
+  emptyResponse: { status: 404, body: "" },
+};
+
+// Failed attempts of `recoversAfterOutage` so far, by license key
+const outageAttempts = new Map<string, number>();
+
+/**
+ * Validates the request like the real API, then answers with the response of
+ * the picked scenario. Invalid requests are always rejected with a 400.
+ */
+export function getMockClaimResponse(
+  body: unknown,
+  scenario: ClaimScenario,
+): MockClaimResponse {
+  const result = requestSchema.safeParse(body);
+
+  if (!result.success) {
+    return {
+      status: 400,
+      delayMs: MOCK_CLAIM_DELAY_MS,
+      body: {
+        error: "Invalid request",
+        message: result.error.issues
+          .map((issue) =>
+            issue.path.length > 0
+              ? `${issue.path.join(".")}: ${issue.message}`
+              : issue.message,
+          )
+          .join("; "),
+      },
+    };
+  }
+
+  const { licenseKey } = result.data;
+
+  if (scenario === "recoversAfterOutage") {
+    const attempts = outageAttempts.get(licenseKey) ?? 0;
+
+    if (attempts < OUTAGE_ATTEMPTS) {
+      outageAttempts.set(licenseKey, attempts + 1);
+      return {
+        ...SCENARIO_ERRORS.validationUnavailable,
+        delayMs: MOCK_CLAIM_DELAY_MS,
+      };
+    }
+
+    outageAttempts.delete(licenseKey);
+  }
+
+  if (
+    scenario === "success" ||
+    scenario === "alreadyClaimed" ||
+    scenario === "recoversAfterOutage" ||
+    scenario === "slowResponse"
+  ) {
+    const now = Math.floor(Date.now() / 1000);
+    const alreadyClaimed = scenario === "alreadyClaimed";
+
+    return {
+      status: 200,
+      // Answers only after the form has given up on the request
+      delayMs:
+        scenario === "slowResponse"
+          ? CLAIM_TIMEOUT_MS + MOCK_CLAIM_DELAY_MS
+          : MOCK_CLAIM_DELAY_MS,
+      body: {
+        steamKey: MOCK_STEAM_KEY,
+        claimedAt: alreadyClaimed ? now - ALREADY_CLAIMED_AGO_S : now,
+        alreadyClaimed,
+      },
+    };
+  }
+
+  return { ...SCENARIO_ERRORS[scenario], delayMs: MOCK_CLAIM_DELAY_MS };
+}
@@ -0,0 +1,184 @@
+import { z } from "astro/zod";
+
+import { createSearchIndex, search } from "../fuzzySearch";
+import {
+  getTreadmillSearchFields,
+  getVRTIDrivers,
+  type Treadmill,
+} from "./treadmills";
+
+export const TREADMILL_API_VERSION = 1;
+
+const DEFAULT_PER_PAGE = 50;
+const MAX_PER_PAGE = 100;
+
+const CACHE_CONTROL = "public, max-age=300, stale-while-revalidate=3600";
+
+export interface TreadmillQuery {
+  drivers: string[];
+  features: string[];
+  make?: string;
+  q?: string;
+  page: number;
+  perPage: number;
+}
+
+export interface TreadmillListResponse {
+  version: typeof TREADMILL_API_VERSION;
+  total: number;
+  page: number;
+  perPage: number;
+  totalPages: number;
+  treadmills: Treadmill[];
+}
+
+export interface TreadmillResponse {
+  version: typeof TREADMILL_API_VERSION;
+  treadmill: Treadmill;
+}
+
+export interface TreadmillApiError {
+  error: string;
+}
+
+const querySchema = z.object({
+  make: z.string().trim().min(1).optional(),
+  q: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PER_PAGE)
+    .default(DEFAULT_PER_PAGE),
+});
+
+// Accepts both `?driver=A&driver=B` and `?driver=A,B`
+const getListValues = (params: URLSearchParams, key: string) =>
+  params
+    .getAll(key)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+/**
+ * Parses the query string of a list request. Returns an error message
+ * instead of throwing, so that it can be sent back as a 400 response.
+ */
+export function parseTreadmillQuery(
+  params: URLSearchParams,
+): { query: TreadmillQuery } | TreadmillApiError {
+  const result = querySchema.safeParse({
+    make: params.get("make") ?? undefined,
+    q: params.get("q") ?? undefined,
+    page: params.get("page") ?? undefined,
+    perPage: params.get("perPage") ?? undefined,
+  });
+
+  if (!result.success) {
+    return {
+      error: result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+
+  return {
+    query: {
+      ...result.data,
+      drivers: getListValues(params, "driver"),
+      features: getListValues(params, "feature"),
+    },
+  };
+}
+
+/**
+ * Applies the filters of a query. Treadmills must use one of the given
+ * drivers and have every given feature. Searching ranks the results by
+ * relevance, otherwise the dataset order is kept.
+ */
+export function queryTreadmills(
+  treadmills: Treadmill[],
+  query: TreadmillQuery,
+): TreadmillListResponse {
+  const make = query.make?.toLowerCase();
+  const filtered = treadmills.filter(
+    (item) =>
+      (query.drivers.length === 0 ||
+        getVRTIDrivers(item).some((driver) =>
+          query.drivers.includes(driver),
+        )) &&
+      query.features.every((feature) => item.features.includes(feature)) &&
+      (!make || item.make.toLowerCase() === make),
+  );
+
+  const matching = query.q
+    ? search(
+        createSearchIndex(filtered, getTreadmillSearchFields),
+        query.q,
+      ).map((result) => result.item)
+    : filtered;
+
+  const start = (query.page - 1) * query.perPage;
+
+  return {
+    version: TREADMILL_API_VERSION,
+    total: matching.length,
+    page: query.page,
+    perPage: query.perPage,
+    totalPages: Math.ceil(matching.length / query.perPage),
+    treadmills: matching.slice(start, start + query.perPage),
+  };
+}
+
+const API_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Access-Control-Allow-Origin": "*",
+};
+
+async function createETag(body: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(body),
+  );
+  const hash = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+  return `"${hash}"`;
+}
+
+const matchesETag = (request: Request, etag: string) =>
+  (request.headers.get("If-None-Match") ?? "")
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === etag || value === "*");
+
+/**
+ * Serializes a successful response with an ETag, answering conditional
+ * requests for unchanged data with a 304.
+ */
+export async function createCachedJsonResponse(
+  request: Request,
+  body: TreadmillListResponse | TreadmillResponse,
+) {
+  const json = JSON.stringify(body);
+  const etag = await createETag(json);
+  const headers = {
+    ...API_HEADERS,
+    "Cache-Control": CACHE_CONTROL,
+    ETag: etag,
+  };
+
+  if (matchesETag(request, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(json, { headers });
+}
+
+export const createErrorResponse = (status: number, error: string) =>
+  new Response(JSON.stringify({ error } satisfies TreadmillApiError), {
+    status,
+    headers: { ...API_HEADERS, "Cache-Control": "no-store" },
+  });
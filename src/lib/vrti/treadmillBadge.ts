@@ -0,0 +1,123 @@
+import {
+  getDriverPresentations,
+  getTreadmillPath,
+  hasExperimentalOnlySupport,
+  type Treadmill,
+} from "./treadmills";
+
+export type BadgeStatus =
+  | "supported"
+  | "experimental"
+  | "unsupported"
+  | "unlisted";
+
+export interface TreadmillBadge {
+  status: BadgeStatus;
+  label: string;
+  message: string;
+  color: string;
+}
+
+const BADGE_LABEL = "VRTI";
+
+const STATUS_COLORS: Record<BadgeStatus, string> = {
+  supported: "#2e9e4f",
+  experimental: "#c77c0a",
+  unsupported: "#b33a3a",
+  unlisted: "#6b7280",
+};
+
+export const getBadgePath = (id: string) =>
+  `/api/vrti/treadmills/${encodeURIComponent(id)}/badge.svg`;
+
+export const getEmbedCardPath = (id: string) =>
+  `/embed/vrti/treadmills/${encodeURIComponent(id)}/`;
+
+/**
+ * Summarizes a treadmill's VRTI support for badges and embeds. Treadmills
+ * that aren't in the dataset get a neutral "not listed" badge, since that
+ * doesn't mean they don't work.
+ */
+export function getTreadmillBadge(item: Treadmill | undefined): TreadmillBadge {
+  if (!item) {
+    return {
+      status: "unlisted",
+      label: BADGE_LABEL,
+      message: "not listed",
+      color: STATUS_COLORS.unlisted,
+    };
+  }
+
+  const drivers = getDriverPresentations(item).map((driver) => driver.label);
+
+  if (drivers.length === 0) {
+    return {
+      status: "unsupported",
+      label: BADGE_LABEL,
+      message: "not supported",
+      color: STATUS_COLORS.unsupported,
+    };
+  }
+
+  const status = hasExperimentalOnlySupport(item)
+    ? "experimental"
+    : "supported";
+
+  return {
+    status,
+    label: BADGE_LABEL,
+    message: `${status === "experimental" ? "experimental" : "works"} | ${drivers.join(", ")}`,
+    color: STATUS_COLORS[status],
+  };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Rough width of 11px Verdana, which is close enough to size the badge
+// without measuring text
+const estimateTextWidth = (text: string) =>
+  Array.from(text).reduce(
+    (width, character) =>
+      width +
+      (/[il.,:;|!' ]/.test(character)
+        ? 3.5
+        : /[A-Zmw]/.test(character)
+          ? 8.5
+          : 6.8),
+    0,
+  );
+
+export function renderBadgeSvg({ label, message, color }: TreadmillBadge) {
+  const padding = 6;
+  const labelWidth = Math.round(estimateTextWidth(label) + padding * 2);
+  const messageWidth = Math.round(estimateTextWidth(message) + padding * 2);
+  const width = labelWidth + messageWidth;
+  const title = escapeXml(`${label}: ${message}`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">
+  <title>${title}</title>
+  <linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+  <clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+  <g clip-path="url(#r)">
+    <rect width="${labelWidth}" height="20" fill="#1e293b"/>
+    <rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${color}"/>
+    <rect width="${width}" height="20" fill="url(#s)"/>
+  </g>
+  <g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+    <text x="${labelWidth / 2}" y="14">${escapeXml(label)}</text>
+    <text x="${labelWidth + messageWidth / 2}" y="14">${escapeXml(message)}</text>
+  </g>
+</svg>
+`;
+}
+
+export const getTreadmillPageUrl = (item: Treadmill | undefined, site: URL) =>
+  new URL(
+    item ? getTreadmillPath(item.id) : "/vrti/supported-devices/treadmills/",
+    site,
+  ).href;
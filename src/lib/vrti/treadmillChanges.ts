@@ -0,0 +1,113 @@
+import {
+  FEATURE_LABELS,
+  getDriverDisplayName,
+  getTreadmillPath,
+} from "./treadmills";
+
+export type TreadmillChangeType = "added" | "removed" | "updated";
+
+export type TreadmillChangeBadge = "new" | "updated";
+
+/**
+ * A single entry of `src/data/vrti/treadmill-changes.json`, which is written
+ * by `npm run treadmills:refresh` when it refreshes the snapshot.
+ */
+export interface TreadmillChange {
+  // YYYY-MM-DD, the day the change was first picked up
+  date: string;
+  type: TreadmillChangeType;
+  id: string;
+  make: string;
+  model: string;
+  driversAdded?: string[];
+  driversRemoved?: string[];
+  featuresAdded?: string[];
+  featuresRemoved?: string[];
+}
+
+export interface TreadmillChangeHistory {
+  version: 1;
+  // Newest first
+  changes: TreadmillChange[];
+}
+
+// How long a treadmill keeps its "New" or "Updated" badge
+export const CHANGE_BADGE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maps treadmill ids to the badge for their latest change within the last
+ * `days` days. Removed treadmills aren't listed, so they get no badge.
+ */
+export function getTreadmillChangeBadges(
+  changes: TreadmillChange[],
+  now = new Date(),
+  days = CHANGE_BADGE_DAYS,
+): Record<string, TreadmillChangeBadge> {
+  const cutoff = now.getTime() - days * DAY_MS;
+  const badges: Record<string, TreadmillChangeBadge> = {};
+
+  for (const change of changes) {
+    if (change.id in badges || Date.parse(change.date) < cutoff) {
+      continue;
+    }
+
+    if (change.type === "added") {
+      badges[change.id] = "new";
+    } else if (change.type === "updated") {
+      badges[change.id] = "updated";
+    }
+  }
+
+  return badges;
+}
+
+const formatList = (
+  values: string[] | undefined,
+  format: (value: string) => string,
+) => (values ?? []).map(format).join(", ");
+
+/**
+ * Summarizes a change in a sentence per kind of change, for the feed.
+ */
+export function describeTreadmillChange(change: TreadmillChange): string[] {
+  const name = `${change.make} ${change.model}`;
+
+  if (change.type === "added") {
+    return [`${name} was added to the list of supported treadmills.`];
+  }
+
+  if (change.type === "removed") {
+    return [`${name} was removed from the list of supported treadmills.`];
+  }
+
+  const featureLabel = (feature: string) => FEATURE_LABELS[feature] ?? feature;
+
+  return [
+    change.driversAdded?.length &&
+      `Now works with: ${formatList(change.driversAdded, getDriverDisplayName)}.`,
+    change.driversRemoved?.length &&
+      `No longer listed for: ${formatList(change.driversRemoved, getDriverDisplayName)}.`,
+    change.featuresAdded?.length &&
+      `Newly supported features: ${formatList(change.featuresAdded, featureLabel)}.`,
+    change.featuresRemoved?.length &&
+      `Features no longer supported: ${formatList(change.featuresRemoved, featureLabel)}.`,
+  ].filter((line): line is string => typeof line === "string");
+}
+
+export const getTreadmillChangeTitle = (change: TreadmillChange) => {
+  const name = `${change.make} ${change.model}`;
+
+  return change.type === "added"
+    ? `New: ${name}`
+    : change.type === "removed"
+      ? `Removed: ${name}`
+      : `Updated: ${name}`;
+};
+
+// Removed treadmills no longer have a page, so point at the list instead
+export const getTreadmillChangePath = (change: TreadmillChange) =>
+  change.type === "removed"
+    ? "/vrti/supported-devices/treadmills/"
+    : getTreadmillPath(change.id);
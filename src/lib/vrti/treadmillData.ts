@@ -0,0 +1,238 @@
+import { z } from "astro/zod";
+
+import changeHistory from "../../data/vrti/treadmill-changes.json";
+import speedRangeFile from "../../data/vrti/treadmill-speed-ranges.json";
+import { validateSpeedRange } from "./speedRange";
+import type { Treadmill, TreadmillSpeedRange } from "./treadmills";
+import type { TreadmillChangeHistory } from "./treadmillChanges";
+
+const SNAPSHOT_PATH = "src/data/vrti/treadmills.json";
+
+// Written by `npm run codegen` from upstream and committed, so that every build
+// renders the same data whether or not upstream can be reached
+const snapshot = Object.values(
+  import.meta.glob<unknown>("../../data/vrti/treadmills.json", {
+    eager: true,
+    import: "default",
+  }),
+)[0];
+
+const compatibilityDataSchema = z.object({
+  experimental: z.boolean().optional(),
+  driver: z.array(z.string()).optional(),
+  notes: z.array(z.string()).optional(),
+});
+
+export const treadmillSchema: z.ZodType<Treadmill> = z.object({
+  id: z.string().min(1),
+  make: z.string().min(1),
+  model: z.string().min(1),
+  features: z.array(z.string()),
+  sharedNotes: z.array(z.string()).optional(),
+  vendorApps: z
+    .array(
+      z.object({
+        name: z.string(),
+        supported: z.boolean(),
+        notes: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  source: z
+    .object({
+      name: z.string().optional(),
+      url: z.string().optional(),
+    })
+    .optional(),
+  weight: z
+    .object({
+      maxUser: z.number().positive(),
+      unit: z.string().min(1),
+    })
+    .optional(),
+  vrtiData: compatibilityDataSchema.optional(),
+  fitOscData: compatibilityDataSchema.optional(),
+});
+
+const datasetSchema = z.object({
+  treadmills: z.array(z.unknown()),
+});
+
+export interface InvalidTreadmillRecord {
+  id: string;
+  issues: string[];
+}
+
+export interface TreadmillDataset {
+  treadmills: Treadmill[];
+  invalid: InvalidTreadmillRecord[];
+}
+
+export class TreadmillDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TreadmillDataError";
+  }
+}
+
+function getRecordId(record: unknown, index: number) {
+  if (
+    record &&
+    typeof record === "object" &&
+    "id" in record &&
+    typeof record.id === "string" &&
+    record.id.length > 0
+  ) {
+    return record.id;
+  }
+
+  return `#${index}`;
+}
+
+/**
+ * Validates a raw `treadmills.json` document. Records that don't match the
+ * schema are dropped and reported by id, while a document without a
+ * `treadmills` array is rejected as a whole.
+ */
+export function parseTreadmillDataset(raw: unknown): TreadmillDataset {
+  const document = datasetSchema.safeParse(raw);
+
+  if (!document.success) {
+    throw new TreadmillDataError(
+      `Unexpected dataset shape: ${document.error.issues
+        .map((issue) => `${issue.path.join(".") || "<root>"} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  const treadmills: Treadmill[] = [];
+  const invalid: InvalidTreadmillRecord[] = [];
+  const seenIds = new Set<string>();
+
+  document.data.treadmills.forEach((record, index) => {
+    const id = getRecordId(record, index);
+    const result = treadmillSchema.safeParse(record);
+
+    if (!result.success) {
+      invalid.push({
+        id,
+        issues: result.error.issues.map(
+          (issue) => `${issue.path.join(".")}: ${issue.message}`,
+        ),
+      });
+      return;
+    }
+
+    if (seenIds.has(result.data.id)) {
+      invalid.push({ id, issues: ["id: Duplicate id"] });
+      return;
+    }
+
+    seenIds.add(result.data.id);
+    treadmills.push(result.data);
+  });
+
+  if (treadmills.length === 0) {
+    throw new TreadmillDataError("Dataset contains no valid treadmills");
+  }
+
+  return { treadmills, invalid };
+}
+
+function parseSnapshot(): TreadmillDataset {
+  if (snapshot === undefined) {
+    throw new TreadmillDataError(
+      `There is no treadmill snapshot at ${SNAPSHOT_PATH}. Run \`npm run treadmills:refresh\` while online and commit the snapshot it writes.`,
+    );
+  }
+
+  const dataset = parseTreadmillDataset(snapshot);
+
+  for (const record of dataset.invalid) {
+    console.warn(
+      `[treadmills] Skipping invalid record "${record.id}": ${record.issues.join("; ")}`,
+    );
+  }
+
+  return dataset;
+}
+
+let dataset: TreadmillDataset | undefined;
+
+/**
+ * Returns the treadmill compatibility dataset from the snapshot in
+ * `src/data/vrti/treadmills.json`, which `npm run build` refreshes from
+ * upstream first when it can. Prerendered pages and routes rendered on demand
+ * both read it, so they never fetch upstream themselves.
+ */
+export function loadTreadmills() {
+  dataset ??= parseSnapshot();
+  return dataset;
+}
+
+const speedRangeSchema: z.ZodType<TreadmillSpeedRange> = z
+  .object({
+    min: z.number(),
+    max: z.number(),
+    step: z.number(),
+    unit: z.enum(["km/h", "mph"]),
+    source: z.string().min(1),
+  })
+  .superRefine((range, context) => {
+    const error = validateSpeedRange(range);
+    if (error) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+const speedRangeFileSchema = z.object({
+  version: z.literal(1),
+  ranges: z.record(speedRangeSchema),
+});
+
+export interface TreadmillSpeedProfile
+  extends Pick<Treadmill, "id" | "make" | "model"> {
+  speedRange: TreadmillSpeedRange;
+}
+
+/**
+ * Returns the treadmills of the dataset that have a speed range in
+ * `src/data/vrti/treadmill-speed-ranges.json`, for the Auto Walk calculator.
+ * Ranges of treadmills that aren't in the dataset are reported and skipped.
+ */
+export function getTreadmillSpeedProfiles(): TreadmillSpeedProfile[] {
+  const file = speedRangeFileSchema.safeParse(speedRangeFile);
+
+  if (!file.success) {
+    throw new TreadmillDataError(
+      `Invalid treadmill speed ranges: ${file.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  const { treadmills } = loadTreadmills();
+  const treadmillIds = new Set(treadmills.map(({ id }) => id));
+
+  for (const id of Object.keys(file.data.ranges)) {
+    if (!treadmillIds.has(id)) {
+      console.warn(
+        `[treadmills] Skipping the speed range of "${id}", which isn't in the dataset`,
+      );
+    }
+  }
+
+  return treadmills.flatMap(({ id, make, model }) => {
+    const speedRange = file.data.ranges[id];
+    return speedRange ? [{ id, make, model, speedRange }] : [];
+  });
+}
+
+/**
+ * Returns the recorded compatibility changes, newest first. These are only
+ * updated by `npm run treadmills:refresh`, see
+ * `scripts/generate-treadmills.js`.
+ */
+export function getTreadmillChanges() {
+  return (changeHistory as TreadmillChangeHistory).changes;
+}
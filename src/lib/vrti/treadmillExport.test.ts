@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { toExportCsv } from "./treadmillExport";
+import type { Treadmill } from "./treadmills";
+
+const ORIGIN = "https://raphii.co";
+
+const treadmill = (changes: Partial<Treadmill>): Treadmill => ({
+  id: "example-treadmill",
+  make: "Example",
+  model: "Walker",
+  features: [],
+  ...changes,
+});
+
+// The make and model cells of the first row
+const getNameCells = (item: Treadmill) =>
+  toExportCsv([item], ORIGIN).split("\r\n")[1].split(",").slice(0, 2);
+
+describe("toExportCsv", () => {
+  it("starts with a UTF-8 BOM", () => {
+    expect(toExportCsv([], ORIGIN)).toBe(
+      "\uFEFFMake,Model,Drivers,Experimental Only,Features,Max User Weight (kg),Max User Weight (lb),Notes,Source,URL",
+    );
+  });
+
+  it.each([
+    { model: "=HYPERLINK(1)", expected: "'=HYPERLINK(1)" },
+    { model: "+1", expected: "'+1" },
+    { model: "-1", expected: "'-1" },
+    { model: "@SUM(A1)", expected: "'@SUM(A1)" },
+    { model: "\tcmd", expected: "'\tcmd" },
+    { model: "\rcmd", expected: "' cmd" },
+    { model: "Walker-1", expected: "Walker-1" },
+  ])("writes $model as $expected", ({ model, expected }) => {
+    expect(getNameCells(treadmill({ model }))).toEqual(["Example", expected]);
+  });
+
+  it("quotes cells with commas and quotes", () => {
+    expect(
+      toExportCsv([treadmill({ model: 'Walker "Pro", 2' })], ORIGIN).split(
+        "\r\n",
+      )[1],
+    ).toMatch(/^Example,"Walker ""Pro"", 2",/);
+  });
+
+  it("keeps non-ASCII makes and models", () => {
+    expect(getNameCells(treadmill({ make: "Ürban", model: "步行机" }))).toEqual(
+      ["Ürban", "步行机"],
+    );
+  });
+});
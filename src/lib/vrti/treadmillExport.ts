@@ -0,0 +1,167 @@
+import {
+  FEATURE_LABELS,
+  LB_PER_KG,
+  getDriverPresentations,
+  getMaxUserWeightKg,
+  getTreadmillNotes,
+  getTreadmillPath,
+  hasExperimentalOnlySupport,
+  type Treadmill,
+} from "./treadmills";
+
+/**
+ * Bump whenever a field is renamed, removed or changes meaning. Adding a
+ * field does not require a new version.
+ */
+export const TREADMILL_EXPORT_VERSION = 1;
+
+export interface TreadmillExportRecord {
+  id: string;
+  make: string;
+  model: string;
+  // Absolute URL of the treadmill's page on this site
+  url: string;
+  // Driver labels as shown in the table, e.g. "KingSmith Type A"
+  drivers: string[];
+  // Raw driver codes, e.g. "KINGSMITH_FE00"
+  driverCodes: string[];
+  experimentalOnly: boolean;
+  // Feature labels as shown in the table, e.g. "Speed Control"
+  features: string[];
+  maxUserWeightKg: number | null;
+  maxUserWeightLb: number | null;
+  notes: string[];
+  sourceName: string | null;
+  sourceUrl: string | null;
+}
+
+export interface TreadmillExportDocument {
+  version: typeof TREADMILL_EXPORT_VERSION;
+  generatedAt: string;
+  count: number;
+  treadmills: TreadmillExportRecord[];
+}
+
+const roundWeight = (value: number) => Math.round(value * 10) / 10;
+
+export function toExportRecord(
+  item: Treadmill,
+  origin: string,
+): TreadmillExportRecord {
+  const drivers = getDriverPresentations(item);
+  const maxUserWeightKg = getMaxUserWeightKg(item);
+
+  return {
+    id: item.id,
+    make: item.make,
+    model: item.model,
+    url: new URL(getTreadmillPath(item.id), origin).href,
+    drivers: drivers.map((driver) => driver.label),
+    driverCodes: drivers.map((driver) => driver.code),
+    experimentalOnly: hasExperimentalOnlySupport(item),
+    features: Array.from(
+      new Set(
+        item.features.map((feature) => FEATURE_LABELS[feature] || feature),
+      ),
+    ),
+    maxUserWeightKg:
+      maxUserWeightKg === undefined ? null : roundWeight(maxUserWeightKg),
+    maxUserWeightLb:
+      maxUserWeightKg === undefined
+        ? null
+        : roundWeight(maxUserWeightKg * LB_PER_KG),
+    notes: getTreadmillNotes(item),
+    sourceName: item.source?.name ?? null,
+    sourceUrl: item.source?.url ?? null,
+  };
+}
+
+export function toExportJson(items: Treadmill[], origin: string) {
+  const document: TreadmillExportDocument = {
+    version: TREADMILL_EXPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    count: items.length,
+    treadmills: items.map((item) => toExportRecord(item, origin)),
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+const CSV_COLUMNS: Array<{
+  header: string;
+  getValue: (record: TreadmillExportRecord) => string | number | null;
+}> = [
+  { header: "Make", getValue: (record) => record.make },
+  { header: "Model", getValue: (record) => record.model },
+  { header: "Drivers", getValue: (record) => record.drivers.join("; ") },
+  {
+    header: "Experimental Only",
+    getValue: (record) => (record.experimentalOnly ? "Yes" : "No"),
+  },
+  { header: "Features", getValue: (record) => record.features.join("; ") },
+  {
+    header: "Max User Weight (kg)",
+    getValue: (record) => record.maxUserWeightKg,
+  },
+  {
+    header: "Max User Weight (lb)",
+    getValue: (record) => record.maxUserWeightLb,
+  },
+  { header: "Notes", getValue: (record) => record.notes.join(" | ") },
+  {
+    header: "Source",
+    getValue: (record) => record.sourceUrl ?? record.sourceName,
+  },
+  { header: "URL", getValue: (record) => record.url },
+];
+
+// Spreadsheets run cells that start with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: string | number | null) => {
+  if (value === null) {
+    return "";
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+
+  // The cells come from community-sourced data, so a leading quote keeps them
+  // from being opened as formulas
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  const singleLine = text.replace(/\r\n|[\r\n]/g, " ");
+  return /[",]/.test(singleLine)
+    ? `"${singleLine.replace(/"/g, '""')}"`
+    : singleLine;
+};
+
+// Makes Excel read the file as UTF-8 rather than the system's code page
+const UTF8_BOM = "\uFEFF";
+
+export function toExportCsv(items: Treadmill[], origin: string) {
+  const rows = items.map((item) => {
+    const record = toExportRecord(item, origin);
+    return CSV_COLUMNS.map((column) =>
+      escapeCsvValue(column.getValue(record)),
+    ).join(",");
+  });
+
+  return (
+    UTF8_BOM +
+    [CSV_COLUMNS.map((column) => column.header).join(","), ...rows].join("\r\n")
+  );
+}
+
+const REVOKE_DELAY_MS = 10_000;
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers cancel the download when the URL is revoked right away
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { reportFromTreadmill, toTreadmillRecord } from "./treadmillReport";
+import type { Treadmill } from "./treadmills";
+
+const treadmill = (changes: Partial<Treadmill>): Treadmill => ({
+  id: "example-treadmill",
+  make: "Example",
+  model: "Walker",
+  features: [],
+  vrtiData: { driver: ["FTMS"] },
+  ...changes,
+});
+
+// The features of the record an unchanged report of `features` turns into
+const getReportedFeatures = (features: string[], reported?: string[]) => {
+  const base = treadmill({ features });
+  const report = reportFromTreadmill(base);
+
+  return toTreadmillRecord(
+    { ...report, features: reported ?? report.features },
+    base,
+  ).features;
+};
+
+describe("toTreadmillRecord", () => {
+  it.each([
+    {
+      name: "keeps the reported features",
+      features: ["speedControl", "steps"],
+      expected: ["speedControl", "steps"],
+    },
+    {
+      name: "keeps features without a label",
+      features: ["speedControl", "distance"],
+      expected: ["distance", "speedControl"],
+    },
+    {
+      name: "keeps the legacy stepCount key",
+      features: ["stepCount", "heartRate"],
+      expected: ["heartRate", "stepCount"],
+    },
+    {
+      name: "adds reported features to the ones without a label",
+      features: ["distance"],
+      reported: ["cadence"],
+      expected: ["distance", "cadence"],
+    },
+    {
+      name: "drops unreported features that have a label",
+      features: ["stepCount", "distance"],
+      reported: [],
+      expected: ["distance"],
+    },
+  ])("$name", ({ features, reported, expected }) => {
+    expect(getReportedFeatures(features, reported)).toEqual(expected);
+  });
+});
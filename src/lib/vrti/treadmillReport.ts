@@ -0,0 +1,191 @@
+import {
+  BLUETOOTH_TREADMILL_DRIVER_OPTIONS,
+  FEATURE_LABELS,
+  getDriverDisplayName,
+  isExperimentalDriver,
+  getVRTIDrivers,
+  type Treadmill,
+} from "./treadmills";
+
+export const TREADMILL_DATA_REPO_URL =
+  "https://github.com/Duinrahaic/treadmill-compatibility";
+
+export interface TreadmillReport {
+  make: string;
+  model: string;
+  // Every driver the treadmill works with, in the order they were picked
+  drivers: string[];
+  // Only works with VRTI's experimental treadmill support enabled
+  experimental: boolean;
+  features: string[];
+  vrtiVersion: string;
+  // One note per line
+  notes: string;
+}
+
+export interface TreadmillReportOutput {
+  record: Treadmill;
+  issueTitle: string;
+  issueBody: string;
+  issueUrl: string;
+}
+
+// Feature keys that can be reported, skipping legacy aliases of the same label
+export const REPORTABLE_FEATURES = Object.keys(FEATURE_LABELS).filter(
+  (key, idx, keys) =>
+    keys.findIndex((other) => FEATURE_LABELS[other] === FEATURE_LABELS[key]) ===
+    idx,
+);
+
+export const createEmptyReport = (): TreadmillReport => ({
+  make: "",
+  model: "",
+  drivers: [],
+  experimental: false,
+  features: [],
+  vrtiVersion: "",
+  notes: "",
+});
+
+/**
+ * Pre-populates a report from an existing record, so that outdated
+ * information only needs to be corrected rather than re-entered.
+ */
+export function reportFromTreadmill(item: Treadmill): TreadmillReport {
+  return {
+    make: item.make,
+    model: item.model,
+    drivers: [...getVRTIDrivers(item)],
+    experimental: item.vrtiData?.experimental === true,
+    features: item.features.map((feature) =>
+      feature === "stepCount" ? "steps" : feature,
+    ),
+    vrtiVersion: "",
+    notes: (item.vrtiData?.notes ?? []).join("\n"),
+  };
+}
+
+/**
+ * The drivers that can be picked in a report: the known ones, plus any others
+ * the corrected record lists, so that they aren't lost.
+ */
+export const getReportableDrivers = (base?: Treadmill) => [
+  ...BLUETOOTH_TREADMILL_DRIVER_OPTIONS.map((option) => option.driver),
+  ...(base ? getVRTIDrivers(base) : []).filter(
+    (driver) =>
+      !BLUETOOTH_TREADMILL_DRIVER_OPTIONS.some(
+        (option) => option.driver === driver,
+      ),
+  ),
+];
+
+export const createTreadmillId = (make: string, model: string) =>
+  `${make} ${model}`
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/**
+ * Returns what still has to be filled in before the report is useful.
+ */
+export function getMissingReportFields(report: TreadmillReport) {
+  return [
+    ...(report.make.trim() ? [] : ["make"]),
+    ...(report.model.trim() ? [] : ["model"]),
+    ...(report.drivers.length > 0 ? [] : ["working driver"]),
+  ];
+}
+
+/**
+ * Builds a record in the upstream dataset's shape. When the report corrects
+ * an existing record, the fields the form doesn't cover (vendor apps,
+ * FitOSC data, weight, source, other VRTI data, features without a label) are
+ * carried over unchanged.
+ */
+export function toTreadmillRecord(
+  report: TreadmillReport,
+  base?: Treadmill,
+): Treadmill {
+  const make = report.make.trim();
+  const model = report.model.trim();
+  const notes = report.notes
+    .split(/\r?\n/)
+    .map((note) => note.trim())
+    .filter(Boolean);
+  // Replaced by what's reported, the rest is kept
+  const {
+    experimental: _experimental,
+    driver: _driver,
+    notes: _notes,
+    ...vrtiData
+  } = base?.vrtiData ?? {};
+  const baseFeatures = base?.features ?? [];
+  // Reported features keep the key the record already uses for them, like the
+  // legacy `stepCount`
+  const reportedFeatures = REPORTABLE_FEATURES.filter((feature) =>
+    report.features.includes(feature),
+  ).map(
+    (feature) =>
+      baseFeatures.find(
+        (other) => FEATURE_LABELS[other] === FEATURE_LABELS[feature],
+      ) ?? feature,
+  );
+
+  return {
+    ...base,
+    id: base?.id ?? createTreadmillId(make, model),
+    make,
+    model,
+    features: [
+      ...baseFeatures.filter((feature) => !FEATURE_LABELS[feature]),
+      ...reportedFeatures,
+    ],
+    vrtiData: {
+      ...vrtiData,
+      ...(report.experimental ||
+      (report.drivers.length > 0 && report.drivers.every(isExperimentalDriver))
+        ? { experimental: true }
+        : {}),
+      driver: report.drivers,
+      ...(notes.length > 0 ? { notes } : {}),
+    },
+  };
+}
+
+export function buildTreadmillReport(
+  report: TreadmillReport,
+  base?: Treadmill,
+): TreadmillReportOutput {
+  const record = toTreadmillRecord(report, base);
+  const name = `${record.make} ${record.model}`.trim() || "Unknown treadmill";
+  const issueTitle = base ? `Update ${name}` : `Add ${name}`;
+
+  const issueBody = [
+    base
+      ? `The information listed for \`${base.id}\` is outdated.`
+      : "This treadmill is not listed yet.",
+    "",
+    `- **Make:** ${record.make || "Unknown"}`,
+    `- **Model:** ${record.model || "Unknown"}`,
+    `- **Working drivers:** ${record.vrtiData?.driver?.map((driver) => `${getDriverDisplayName(driver)} (\`${driver}\`)`).join(", ") || "Unknown"}`,
+    `- **Features:** ${record.features.map((feature) => FEATURE_LABELS[feature] || feature).join(", ") || "None"}`,
+    `- **VRTI version:** ${report.vrtiVersion.trim() || "Unknown"}`,
+    "",
+    "### Record",
+    "",
+    "```json",
+    JSON.stringify(record, null, 2),
+    "```",
+  ].join("\n");
+
+  const issueUrl = `${TREADMILL_DATA_REPO_URL}/issues/new?${new URLSearchParams(
+    {
+      title: issueTitle,
+      body: issueBody,
+    },
+  )}`;
+
+  return { record, issueTitle, issueBody, issueUrl };
+}
@@ -0,0 +1,390 @@
+import type { SearchFieldInput } from "../fuzzySearch";
+import type { SpeedRange, SpeedUnit } from "./speedRange";
+
+export interface CompatibilityData {
+  experimental?: boolean;
+  driver?: string[];
+  notes?: string[];
+}
+
+export interface VendorApp {
+  name: string;
+  supported: boolean;
+  notes?: string[];
+}
+
+export interface TreadmillSource {
+  name?: string;
+  url?: string;
+}
+
+export interface TreadmillWeight {
+  maxUser: number;
+  unit: string;
+}
+
+export interface Treadmill {
+  id: string;
+  make: string;
+  model: string;
+  features: string[];
+  sharedNotes?: string[];
+  vendorApps?: VendorApp[];
+  source?: TreadmillSource;
+  weight?: TreadmillWeight;
+  vrtiData?: CompatibilityData;
+  fitOscData?: CompatibilityData;
+}
+
+/**
+ * A treadmill's speed range from `src/data/vrti/treadmill-speed-ranges.json`.
+ * The upstream dataset has no speed ranges, so they're kept in this repo.
+ */
+export interface TreadmillSpeedRange extends SpeedRange {
+  unit: SpeedUnit;
+  // Where the range was taken from, like the manufacturer's spec sheet
+  source: string;
+}
+
+export interface TreadmillDriverOption {
+  driver: string;
+  label: string;
+  experimental?: boolean;
+}
+
+export interface DriverPresentation {
+  code: string;
+  label: string;
+  badgeClassName: string;
+}
+
+export const FEATURE_LABELS: Record<string, string> = {
+  speedControl: "Speed Control",
+  inclineControl: "Incline Control",
+  cadence: "Cadence",
+  calories: "Calories",
+  heartRate: "Heart Rate",
+  steps: "Steps",
+  // Legacy support in case old data persists
+  stepCount: "Steps",
+};
+
+export const BLUETOOTH_TREADMILL_DRIVER_OPTIONS: TreadmillDriverOption[] = [
+  {
+    driver: "FTMS",
+    label: "Generic FTMS",
+  },
+  {
+    driver: "KINGSMITH_FE00",
+    label: "KingSmith Type A",
+  },
+  {
+    driver: "KINGSMITH_1234",
+    label: "KingSmith Type B",
+  },
+  {
+    driver: "PITPAT_FBA0",
+    label: "PitPat",
+  },
+  {
+    driver: "FTMS_KINGSMITH_24E2",
+    label: "KingSmith Type C",
+  },
+  {
+    driver: "ESLINKER_YPOO",
+    label: "ESLinker",
+  },
+];
+
+const DRIVER_OPTIONS = Object.fromEntries(
+  BLUETOOTH_TREADMILL_DRIVER_OPTIONS.map((option) => [option.driver, option]),
+) as Record<string, TreadmillDriverOption>;
+
+const DRIVER_LABELS: Record<string, string> = {
+  ...Object.fromEntries(
+    BLUETOOTH_TREADMILL_DRIVER_OPTIONS.map((option) => [
+      option.driver,
+      option.label,
+    ]),
+  ),
+  "Kingsmith Walking Pad": "KingSmith Type A",
+};
+
+const DRIVER_BADGE_STYLES: Record<string, string> = {
+  FTMS: "bg-fuchsia-950/60 text-fuchsia-200 border-fuchsia-700/70",
+  ESLINKER_YPOO: "bg-violet-950/60 text-violet-200 border-violet-700/70",
+  FTMS_KINGSMITH_24E2: "bg-orange-950/60 text-orange-200 border-orange-700/70",
+  KINGSMITH_1234: "bg-sky-950/60 text-sky-200 border-sky-700/70",
+  KINGSMITH_FE00: "bg-emerald-950/60 text-emerald-200 border-emerald-700/70",
+  PITPAT_FBA0: "bg-amber-950/60 text-amber-200 border-amber-700/70",
+};
+
+export const getDriverDisplayName = (driver: string) =>
+  DRIVER_LABELS[driver] ?? driver.split("_").join(" ");
+
+export const isExperimentalDriver = (driver: string) =>
+  DRIVER_OPTIONS[driver]?.experimental === true;
+
+export const getVRTIDrivers = (item: Treadmill) => item.vrtiData?.driver ?? [];
+
+export const getDriverPresentations = (
+  item: Treadmill,
+): DriverPresentation[] => {
+  const drivers = getVRTIDrivers(item);
+
+  return drivers.map((driver) => ({
+    code: driver,
+    label: getDriverDisplayName(driver),
+    badgeClassName:
+      DRIVER_BADGE_STYLES[driver] ??
+      "bg-slate-800 text-slate-300 border-slate-700",
+  }));
+};
+
+export const getDriverBadgeVariant = (
+  driverLabel: string,
+  experimental: boolean,
+): "default" | "success" | "tip" | "caution" | "danger" => {
+  if (experimental) {
+    return "success";
+  }
+
+  if (driverLabel === "Generic FTMS") {
+    return "tip";
+  }
+
+  return "success";
+};
+
+export const hasExperimentalOnlySupport = (item: Treadmill) => {
+  const drivers = getVRTIDrivers(item);
+
+  return (
+    drivers.length > 0 &&
+    (item.vrtiData?.experimental === true ||
+      drivers.every((driver) => isExperimentalDriver(driver)))
+  );
+};
+
+export const LB_PER_KG = 2.20462;
+
+const formatWeightValue = (value: number) => {
+  const rounded = Math.round(value * 10) / 10;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1);
+};
+
+/**
+ * The weight in the reader's unit, or as listed when it uses a unit we don't
+ * recognize.
+ */
+export const getWeightDisplay = (
+  weight: TreadmillWeight,
+  displayUnit: WeightUnit,
+) => {
+  const unit = weight.unit.trim().toLowerCase();
+
+  if (unit === "kg" || unit === "lb" || unit === "lbs") {
+    const kilograms = toKilograms(weight.maxUser, unit === "kg" ? "kg" : "lb");
+    return displayUnit === "lb"
+      ? `${formatWeightValue(kilograms * LB_PER_KG)} lb`
+      : `${formatWeightValue(kilograms)} kg`;
+  }
+
+  return `${formatWeightValue(weight.maxUser)} ${weight.unit}`;
+};
+
+// Developer's personal treadmill choice
+const DEVELOPER_CHOICE = {
+  make: "KingSmith",
+  model: "WalkingPad P1",
+};
+
+export const isDeveloperChoice = (item: Treadmill) => {
+  return (
+    item.make === DEVELOPER_CHOICE.make && item.model === DEVELOPER_CHOICE.model
+  );
+};
+
+export const getTreadmillPath = (id: string) =>
+  `/vrti/supported-devices/treadmills/${encodeURIComponent(id)}/`;
+
+export type SupportStatus =
+  | "supported"
+  | "experimental"
+  | "unsupported"
+  | "unknown";
+
+export interface CompatibilityCell {
+  status: SupportStatus;
+  labels: string[];
+  notes: string[];
+}
+
+export interface CompatibilityColumn {
+  key: string;
+  label: string;
+  getCell: (item: Treadmill) => CompatibilityCell;
+}
+
+const UNKNOWN_CELL: CompatibilityCell = {
+  status: "unknown",
+  labels: [],
+  notes: [],
+};
+
+const getVRTICell = (item: Treadmill, experimental: boolean) => {
+  if (!item.vrtiData) {
+    return UNKNOWN_CELL;
+  }
+
+  const drivers = getDriverPresentations(item);
+
+  if (drivers.length === 0) {
+    return experimental
+      ? UNKNOWN_CELL
+      : {
+          status: "unsupported" as const,
+          labels: [],
+          notes: item.vrtiData.notes ?? [],
+        };
+  }
+
+  if (hasExperimentalOnlySupport(item) !== experimental) {
+    return UNKNOWN_CELL;
+  }
+
+  return {
+    status: experimental ? ("experimental" as const) : ("supported" as const),
+    labels: drivers.map((driver) => driver.label),
+    notes: item.vrtiData.notes ?? [],
+  };
+};
+
+const getFitOscCell = (item: Treadmill): CompatibilityCell => {
+  if (!item.fitOscData) {
+    return UNKNOWN_CELL;
+  }
+
+  const drivers = item.fitOscData.driver ?? [];
+
+  return {
+    status:
+      drivers.length === 0
+        ? "unsupported"
+        : item.fitOscData.experimental
+          ? "experimental"
+          : "supported",
+    labels: drivers,
+    notes: item.fitOscData.notes ?? [],
+  };
+};
+
+const getVendorAppCell = (item: Treadmill, name: string): CompatibilityCell => {
+  const app = item.vendorApps?.find((vendorApp) => vendorApp.name === name);
+
+  if (!app) {
+    return UNKNOWN_CELL;
+  }
+
+  return {
+    status: app.supported ? "supported" : "unsupported",
+    labels: [],
+    notes: app.notes ?? [],
+  };
+};
+
+export const getVendorAppNames = (data: Treadmill[]) =>
+  Array.from(
+    new Set(
+      data.flatMap((item) => item.vendorApps?.map((app) => app.name) ?? []),
+    ),
+  ).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Builds the columns of the multi-app compatibility matrix: VRTI split into
+ * stable and experimental support, FitOSC, and one column per vendor app
+ * that appears anywhere in the dataset.
+ */
+export const getCompatibilityColumns = (
+  data: Treadmill[],
+): CompatibilityColumn[] => [
+  {
+    key: "vrti",
+    label: "VRTI",
+    getCell: (item) => getVRTICell(item, false),
+  },
+  {
+    key: "vrti-experimental",
+    label: "VRTI (Experimental)",
+    getCell: (item) => getVRTICell(item, true),
+  },
+  {
+    key: "fitosc",
+    label: "FitOSC",
+    getCell: getFitOscCell,
+  },
+  ...getVendorAppNames(data).map((name) => ({
+    key: `vendor-${name}`,
+    label: name,
+    getCell: (item: Treadmill) => getVendorAppCell(item, name),
+  })),
+];
+
+export const getTreadmillNotes = (item: Treadmill) => [
+  ...(item.sharedNotes ?? []),
+  ...(item.vrtiData?.notes ?? []),
+];
+
+/**
+ * Searchable text of a treadmill. Note keys are indices into
+ * `getTreadmillNotes`, driver keys use the driver code.
+ */
+export const getTreadmillSearchFields = (
+  item: Treadmill,
+): SearchFieldInput[] => [
+  { key: "make", text: item.make, weight: 2, spanWords: true },
+  { key: "model", text: item.model, weight: 3, spanWords: true },
+  { key: "source", text: item.source?.name ?? "", weight: 1 },
+  ...getDriverPresentations(item).map((driver) => ({
+    key: `driver:${driver.code}`,
+    text: driver.label,
+    weight: 1.5,
+  })),
+  ...item.features.map((feature) => ({
+    key: `feature:${feature}`,
+    text: FEATURE_LABELS[feature] || feature,
+    weight: 1,
+  })),
+  ...getTreadmillNotes(item).map((note, idx) => ({
+    key: `note:${idx}`,
+    text: note,
+    weight: 0.5,
+  })),
+];
+
+export type WeightUnit = "kg" | "lb";
+
+export const toKilograms = (value: number, unit: WeightUnit) =>
+  unit === "lb" ? value / LB_PER_KG : value;
+
+/**
+ * The treadmill's max user weight normalized to kilograms, or `undefined`
+ * when it isn't listed or uses a unit we don't recognize.
+ */
+export const getMaxUserWeightKg = (item: Treadmill) => {
+  const unit = item.weight?.unit.trim().toLowerCase();
+
+  if (!item.weight || !unit) {
+    return undefined;
+  }
+
+  if (unit === "kg") {
+    return item.weight.maxUser;
+  }
+
+  if (unit === "lb" || unit === "lbs") {
+    return toKilograms(item.weight.maxUser, "lb");
+  }
+
+  return undefined;
+};
@@ -0,0 +1,54 @@
+import type { APIRoute } from "astro";
+import { isClaimScenario } from "../../../../lib/vrti/steamKeyClaim";
+import { getMockClaimResponse } from "../../../../lib/vrti/steamKeyClaimMock";
+
+export const prerender = false;
+
+const HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+// A stand-in for the Steam key claim API, for trying every outcome of the
+// claim form. The response is picked with `?scenario=`, see
+// `CLAIM_SCENARIOS`. Only served in development.
+export const POST: APIRoute = async ({ request, url }) => {
+  if (!import.meta.env.DEV) {
+    return new Response(null, { status: 404 });
+  }
+
+  const scenario = url.searchParams.get("scenario") ?? "success";
+
+  if (!isClaimScenario(scenario)) {
+    return new Response(
+      JSON.stringify({ error: `Unknown scenario "${scenario}"` }),
+      { status: 400, headers: HEADERS },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({
+        error: "Invalid request",
+        message: "The request body must be JSON",
+      }),
+      { status: 400, headers: HEADERS },
+    );
+  }
+
+  const response = getMockClaimResponse(body, scenario);
+  await new Promise((resolve) => setTimeout(resolve, response.delayMs));
+
+  return typeof response.body === "string"
+    ? new Response(response.body, {
+        status: response.status,
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      })
+    : new Response(JSON.stringify(response.body), {
+        status: response.status,
+        headers: HEADERS,
+      });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute } from "astro";
+import { loadTreadmills } from "../../../../lib/vrti/treadmillData";
+import {
+  TREADMILL_API_VERSION,
+  createCachedJsonResponse,
+  createErrorResponse,
+} from "../../../../lib/vrti/treadmillApi";
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ request, params }) => {
+  const { treadmills } = loadTreadmills();
+  const treadmill = treadmills.find((item) => item.id === params.id);
+
+  if (!treadmill) {
+    return createErrorResponse(404, `No treadmill with id "${params.id}"`);
+  }
+
+  return createCachedJsonResponse(request, {
+    version: TREADMILL_API_VERSION,
+    treadmill,
+  });
+};
@@ -0,0 +1,22 @@
+import type { APIRoute } from "astro";
+import { loadTreadmills } from "../../../../../lib/vrti/treadmillData";
+import {
+  getTreadmillBadge,
+  renderBadgeSvg,
+} from "../../../../../lib/vrti/treadmillBadge";
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ params }) => {
+  const { treadmills } = loadTreadmills();
+  const treadmill = treadmills.find((item) => item.id === params.id);
+
+  // Unknown ids still get a (neutral) badge, so that embeds never break
+  return new Response(renderBadgeSvg(getTreadmillBadge(treadmill)), {
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      "Access-Control-Allow-Origin": "*",
+      "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400",
+    },
+  });
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from "astro";
+import { loadTreadmills } from "../../../../lib/vrti/treadmillData";
+import {
+  createCachedJsonResponse,
+  createErrorResponse,
+  parseTreadmillQuery,
+  queryTreadmills,
+} from "../../../../lib/vrti/treadmillApi";
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ request, url }) => {
+  const parsed = parseTreadmillQuery(url.searchParams);
+
+  if ("error" in parsed) {
+    return createErrorResponse(400, parsed.error);
+  }
+
+  const { treadmills } = loadTreadmills();
+  return createCachedJsonResponse(
+    request,
+    queryTreadmills(treadmills, parsed.query),
+  );
+};
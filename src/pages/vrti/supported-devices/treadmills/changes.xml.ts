@@ -0,0 +1,64 @@
+import type { APIRoute } from "astro";
+import { getTreadmillChanges } from "../../../../lib/vrti/treadmillData";
+import {
+  describeTreadmillChange,
+  getTreadmillChangePath,
+  getTreadmillChangeTitle,
+} from "../../../../lib/vrti/treadmillChanges";
+
+export const prerender = true;
+
+const FEED_PATH = "/vrti/supported-devices/treadmills/changes.xml";
+const MAX_ENTRIES = 50;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const toTimestamp = (date: string) => `${date}T00:00:00Z`;
+
+export const GET: APIRoute = ({ site }) => {
+  const origin = site ?? new URL("https://raphii.co");
+  const history = getTreadmillChanges();
+  const changes = history.slice(0, MAX_ENTRIES);
+  const feedUrl = new URL(FEED_PATH, origin).href;
+  const listUrl = new URL("/vrti/supported-devices/treadmills/", origin).href;
+  const updated = changes[0]
+    ? toTimestamp(changes[0].date)
+    : new Date().toISOString();
+
+  const entries = changes.map((change, index) => {
+    const url = new URL(getTreadmillChangePath(change), origin).href;
+    // Counted from the oldest change, so it stays the same as newer ones are
+    // added, and tells apart changes to one treadmill on the same day
+    const sequence = history.length - index;
+
+    return `  <entry>
+    <id>tag:${origin.host},${change.date}:vrti/treadmills/${escapeXml(change.id)}/${change.type}/${sequence}</id>
+    <title>${escapeXml(getTreadmillChangeTitle(change))}</title>
+    <link href="${escapeXml(url)}"/>
+    <updated>${toTimestamp(change.date)}</updated>
+    <summary>${escapeXml(describeTreadmillChange(change).join(" "))}</summary>
+  </entry>`;
+  });
+
+  const feed = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feedUrl)}</id>
+  <title>VRTI treadmill compatibility changes</title>
+  <subtitle>Treadmills that were added to, removed from or updated in the VRTI compatibility list.</subtitle>
+  <link rel="self" href="${escapeXml(feedUrl)}"/>
+  <link href="${escapeXml(listUrl)}"/>
+  <author><name>Raphii</name></author>
+  <updated>${updated}</updated>
+${entries.join("\n")}
+</feed>
+`;
+
+  return new Response(feed, {
+    headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+  });
+};
@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+// Drives the site in Chromium through Playwright, against an Astro dev server
+// started by vitest.browser.setup.ts
+export default defineConfig({
+  test: {
+    include: ["src/**/*.browser.test.ts"],
+    globalSetup: ["./vitest.browser.setup.ts"],
+    // Claims that are retried take about 20 seconds to fail
+    testTimeout: 60_000,
+    hookTimeout: 60_000,
+  },
+});
@@ -0,0 +1,21 @@
+import { fileURLToPath } from "node:url";
+import { dev } from "astro";
+import type { GlobalSetupContext } from "vitest/node";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    baseUrl: string;
+  }
+}
+
+export default async function setup({ provide }: GlobalSetupContext) {
+  const server = await dev({
+    root: fileURLToPath(new URL(".", import.meta.url)),
+    logLevel: "warn",
+    server: { host: "127.0.0.1", port: 4329 },
+  });
+
+  provide("baseUrl", `http://127.0.0.1:${server.address.port}`);
+
+  return () => server.stop();
+}
@@ -0,0 +1,8 @@
+import { configDefaults, defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Run by `npm run test:browser`, see vitest.browser.config.ts
+    exclude: [...configDefaults.exclude, "**/*.browser.test.ts"],
+  },
+});